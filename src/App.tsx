@@ -1,48 +1,146 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import type { Basis, Category, DayFoodEntry, DayTarget, DayType, FoodItem, Language, PlannerProfile } from './types';
-import { DEFAULT_CARB_SHARES, DEFAULT_FAT_SHARES, calculateCycle, normalizePlacement, validateProfile } from './utils/calc';
-import { exportCsv, exportXlsx } from './utils/export';
-import { computeTotals, greedyGenerate } from './utils/solver';
+import type {
+  Basis,
+  Category,
+  DayFoodEntry,
+  DayPlan,
+  DayTarget,
+  DayTemplate,
+  DayType,
+  FoodItem,
+  IntakeDay,
+  IntakeEntry,
+  Language,
+  Meal,
+  MealKind,
+  PlannerProfile,
+  Recipe,
+  SessionIntensity,
+  WeightEntry
+} from './types';
+import {
+  DEFAULT_BODY_TYPE_RULES,
+  DEFAULT_CARB_SHARES,
+  DEFAULT_FAT_SHARES,
+  calculateCycle,
+  normalizePlacement,
+  validateProfile
+} from './utils/calc';
+import { SHOPPING_HEADERS, columnHeader, exportCsv, exportXlsx, shoppingRows } from './utils/export';
+import { CATEGORY_ORDER, buildShoppingList, cyclePlans, type ShoppingItem } from './utils/shopping';
+import { computeTotals, type SolveResult } from './utils/solver';
 import { idbGet, idbSet } from './utils/storage';
+import {
+  DEFAULT_PROFILE_ID,
+  PROFILES_KEY,
+  deleteProfileData,
+  loadRegistry,
+  newProfileId,
+  profileKey,
+  uniqueProfileName,
+  type ProfileRegistry
+} from './utils/profiles';
+import { cycleDayForDate, cycleStartFor, freezeCycle, todayIso } from './utils/calendar';
+import { planningWeight, weightTrend } from './utils/weight';
+import { nutrientWarnings } from './utils/nutrients';
+import { recipeToFood } from './utils/recipes';
+import { convertGrams, deriveVariant, withYield } from './utils/yields';
+import { portionsFor } from './utils/units';
+import { DEFAULT_TRAINING_SCHEDULE, autoPlacement, cycleIntensities } from './utils/placement';
+import { computeAdherence, emptyIntakeDay } from './utils/intake';
+import { createMeal, dayEntries, defaultDayPlan, mealTargets } from './utils/meals';
+import { SCHEMA_VERSION, createBackup, loadData, type AppData, type LoadResult } from './utils/backup';
+import { planFromTemplate, rescalePlan, templateFromPlan } from './utils/templates';
+import { POSTER_WIDTH, coverPosterDoc, cyclePosterDoc, dayPosterDoc, renderPoster, shoppingPosterDoc } from './utils/poster';
+import { buildIcs } from './utils/ical';
+import { buildSharePayload, createShareLink, isShareFragment, readShareFragment } from './utils/share';
+import { A4_HEIGHT_PT, A4_WIDTH_PT, buildPdf, dataUrlBytes } from './utils/pdf';
+import { emptyHistory, recordHistory, redoHistory, undoHistory, type History } from './utils/history';
+import { LANGUAGES, isLanguage, t } from './i18n';
 import { SegmentedTabs, type MainTab } from './components/SegmentedTabs';
 import { ProfileTab } from './components/ProfileTab';
 import { PlanTab } from './components/PlanTab';
 import { FoodsTab } from './components/FoodsTab';
+import { CalendarTab } from './components/CalendarTab';
+import { ShoppingTab } from './components/ShoppingTab';
+import { LogTab } from './components/LogTab';
+import { WeightTab } from './components/WeightTab';
 import { MacroDeltaBar } from './components/MacroDeltaBar';
+import { BackupPanel } from './components/BackupPanel';
+import { PlanImportPanel } from './components/PlanImportPanel';
+import { SharePanel } from './components/SharePanel';
+import { ShareImportPanel } from './components/ShareImportPanel';
+import { ProfileManager } from './components/ProfileManager';
 
 const STORAGE_KEYS = {
   profile: 'cc_profile_v2',
   plans: 'cc_day_plans_v2',
   customFoods: 'cc_custom_foods_v2',
-  lang: 'cc_lang_v2'
+  lang: 'cc_lang_v2',
+  intake: 'cc_intake_log_v2',
+  weight: 'cc_weight_log_v2',
+  recipes: 'cc_recipes_v2',
+  schema: 'cc_schema_version_v2',
+  hiddenFoods: 'cc_hidden_foods_v2',
+  templates: 'cc_day_templates_v2',
+  shoppingChecked: 'cc_shopping_checked_v2'
 } as const;
 
-const categories: Array<{ key: Category | 'all'; label: string }> = [
-  { key: 'all', label: 'All' },
-  { key: 'protein', label: 'Protein' },
-  { key: 'carb', label: 'Carb' },
-  { key: 'fat', label: 'Fat' },
-  { key: 'veg', label: 'Veg' },
-  { key: 'fruit', label: 'Fruit' },
-  { key: 'dairy', label: 'Dairy' },
-  { key: 'other', label: 'Other' }
+/** Keys stored per profile (`key@profileId`); custom foods, recipes and templates are shared. */
+const PROFILE_SCOPED_KEYS = [
+  STORAGE_KEYS.profile,
+  STORAGE_KEYS.plans,
+  STORAGE_KEYS.lang,
+  STORAGE_KEYS.intake,
+  STORAGE_KEYS.weight,
+  STORAGE_KEYS.schema,
+  STORAGE_KEYS.hiddenFoods,
+  STORAGE_KEYS.shoppingChecked
 ];
 
+const categories: Array<Category | 'all'> = ['all', ...CATEGORY_ORDER];
+
 const defaultProfile: PlannerProfile = {
   sex: 'Female',
   weightKg: 70,
   bodyType: 'endo',
+  bodyTypeRules: DEFAULT_BODY_TYPE_RULES.map((r) => ({ ...r })),
   proteinPerKg: 1.2,
-  ectoFatPerKg: 1.0,
+  proteinBasis: 'total',
   cycleDays: 5,
   nHigh: 2,
   nMed: 2,
   nLow: 1,
   carbShares: { ...DEFAULT_CARB_SHARES },
   fatShares: { ...DEFAULT_FAT_SHARES },
-  dayPlacement: ['High', 'High', 'Medium', 'Medium', 'Low']
+  dayPlacement: ['High', 'High', 'Medium', 'Medium', 'Low'],
+  trainingSchedule: [...DEFAULT_TRAINING_SCHEDULE],
+  nutrientGoals: [],
+  targetMode: 'perKg',
+  ageYears: 30,
+  heightCm: 165,
+  activityFactor: 1.55,
+  goal: 'maintain',
+  goalPct: 15,
+  cycleStartDate: todayIso()
+};
+
+const defaultAppData: AppData = {
+  lang: 'en',
+  profile: defaultProfile,
+  dayPlans: {},
+  customFoods: [],
+  recipes: [],
+  intakeLog: {},
+  weightLog: [],
+  hiddenFoodIds: [],
+  templates: [],
+  shoppingChecked: []
 };
 
+/** What undo/redo restores. */
+type EditSnapshot = { profile: PlannerProfile; dayPlans: Record<number, DayPlan> };
+
 type FoodDb = { version: number; units: string; foods: FoodItem[] };
 
 function clamp(n: number, min: number, max: number): number {
@@ -60,16 +158,36 @@ export default function App() {
   const [activeTab, setActiveTab] = useState<MainTab>('profile');
   const [lang, setLang] = useState<Language>('en');
   const [profile, setProfile] = useState<PlannerProfile>(defaultProfile);
-  const [dayPlans, setDayPlans] = useState<Record<number, DayFoodEntry[]>>({});
+  const [dayPlans, setDayPlans] = useState<Record<number, DayPlan>>({});
   const [builtins, setBuiltins] = useState<FoodItem[]>([]);
   const [customFoods, setCustomFoods] = useState<FoodItem[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [expandRecipes, setExpandRecipes] = useState(false);
   const [selectedDay, setSelectedDay] = useState(1);
+  const [selectedMealId, setSelectedMealId] = useState('');
   const [search, setSearch] = useState('');
   const [category, setCategory] = useState<Category | 'all'>('all');
   const [toast, setToast] = useState('');
+  const [toastUndo, setToastUndo] = useState(false);
+  const [history, setHistory] = useState<History<EditSnapshot>>(emptyHistory);
+  const [intakeLog, setIntakeLog] = useState<Record<string, IntakeDay>>({});
+  const [logDate, setLogDate] = useState(todayIso);
+  const [weightLog, setWeightLog] = useState<WeightEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [profileRegistry, setProfileRegistry] = useState<ProfileRegistry>({
+    activeId: DEFAULT_PROFILE_ID,
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Default' }]
+  });
+  const [hiddenFoodIds, setHiddenFoodIds] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<DayTemplate[]>([]);
+  const [shoppingChecked, setShoppingChecked] = useState<string[]>([]);
+  const [placementReasons, setPlacementReasons] = useState<string[]>([]);
+  const [solveReports, setSolveReports] = useState<Record<number, Record<string, SolveResult>>>({});
+  const [incomingShare, setIncomingShare] = useState<{ result?: LoadResult; error?: string } | null>(null);
 
-  const dayCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const cycleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastSnapshot = useRef<EditSnapshot | null>(null);
+  // Set right before a state change to coalesce it with the previous edit, or to keep it out of the history.
+  const historyTag = useRef<{ key?: string; skip?: boolean }>({});
 
   const [customForm, setCustomForm] = useState({
     name_en: '',
@@ -79,26 +197,87 @@ export default function App() {
     p: 0,
     c: 0,
     f: 0,
-    kcal: 0
+    kcal: 0,
+    fiber: undefined as number | undefined,
+    sugar: undefined as number | undefined,
+    satFat: undefined as number | undefined,
+    sodium: undefined as number | undefined,
+    yieldRatio: 0
   });
 
+  async function loadProfileData(profileId: string): Promise<LoadResult> {
+    const key = (k: string) => profileKey(k, profileId);
+    const [
+      savedVersion,
+      savedLang,
+      savedProfile,
+      savedPlans,
+      savedIntake,
+      savedWeight,
+      savedHidden,
+      savedChecked,
+      savedCustom,
+      savedRecipes,
+      savedTemplates
+    ] = await Promise.all([
+      idbGet<number>(key(STORAGE_KEYS.schema), 1),
+      idbGet<unknown>(key(STORAGE_KEYS.lang), undefined),
+      idbGet<unknown>(key(STORAGE_KEYS.profile), undefined),
+      idbGet<unknown>(key(STORAGE_KEYS.plans), undefined),
+      idbGet<unknown>(key(STORAGE_KEYS.intake), undefined),
+      idbGet<unknown>(key(STORAGE_KEYS.weight), undefined),
+      idbGet<unknown>(key(STORAGE_KEYS.hiddenFoods), undefined),
+      idbGet<unknown>(key(STORAGE_KEYS.shoppingChecked), undefined),
+      idbGet<unknown>(STORAGE_KEYS.customFoods, undefined),
+      idbGet<unknown>(STORAGE_KEYS.recipes, undefined),
+      idbGet<unknown>(STORAGE_KEYS.templates, undefined)
+    ]);
+    const result = loadData(
+      {
+        lang: savedLang,
+        profile: savedProfile,
+        dayPlans: savedPlans,
+        customFoods: savedCustom,
+        intakeLog: savedIntake,
+        weightLog: savedWeight,
+        recipes: savedRecipes,
+        hiddenFoodIds: savedHidden,
+        templates: savedTemplates,
+        shoppingChecked: savedChecked
+      },
+      savedVersion,
+      defaultAppData,
+      isLanguage(savedLang) ? savedLang : defaultAppData.lang
+    );
+    idbSet(key(STORAGE_KEYS.schema), SCHEMA_VERSION);
+    return result;
+  }
+
   useEffect(() => {
     (async () => {
-      const [savedLang, savedProfile, savedPlans, savedCustom] = await Promise.all([
-        idbGet<Language>(STORAGE_KEYS.lang, 'en'),
-        idbGet<PlannerProfile>(STORAGE_KEYS.profile, defaultProfile),
-        idbGet<Record<number, DayFoodEntry[]>>(STORAGE_KEYS.plans, {}),
-        idbGet<FoodItem[]>(STORAGE_KEYS.customFoods, [])
-      ]);
-
-      const normalized = { ...savedProfile, dayPlacement: normalizePlacement(savedProfile) };
-      setLang(savedLang);
-      setProfile(normalized);
-      setDayPlans(savedPlans);
-      setCustomFoods(savedCustom);
+      const registry = await loadRegistry(PROFILE_SCOPED_KEYS);
+      const { data, issues } = await loadProfileData(registry.activeId);
+      setProfileRegistry(registry);
+      applyData(data);
+      if (issues.length) setToast(issues.join(' '));
+      setLoaded(true);
     })();
   }, []);
 
+  // Opening a share link (or pasting one into the open app) offers its plan as a new profile.
+  useEffect(() => {
+    if (!loaded) return;
+    const readHash = () => {
+      if (!isShareFragment(window.location.hash)) return;
+      readShareFragment(window.location.hash, defaultAppData, lang)
+        .then((result) => setIncomingShare({ result }))
+        .catch((err) => setIncomingShare({ error: err instanceof Error ? err.message : String(err) }));
+    };
+    readHash();
+    window.addEventListener('hashchange', readHash);
+    return () => window.removeEventListener('hashchange', readHash);
+  }, [loaded]);
+
   useEffect(() => {
     fetch('/foods.json')
       .then((r) => r.json())
@@ -106,50 +285,132 @@ export default function App() {
       .catch(() => setBuiltins([]));
   }, []);
 
+  // Nothing is written until the active profile has loaded, so defaults never overwrite saved data.
+  const activeProfileId = profileRegistry.activeId;
+  const activeProfileName = profileRegistry.profiles.find((p) => p.id === activeProfileId)?.name ?? '';
+
   useEffect(() => {
-    idbSet(STORAGE_KEYS.lang, lang);
-  }, [lang]);
+    if (loaded) idbSet(PROFILES_KEY, profileRegistry);
+  }, [loaded, profileRegistry]);
 
   useEffect(() => {
-    idbSet(STORAGE_KEYS.profile, profile);
-  }, [profile]);
+    if (loaded) idbSet(profileKey(STORAGE_KEYS.lang, activeProfileId), lang);
+  }, [loaded, lang]);
 
   useEffect(() => {
-    idbSet(STORAGE_KEYS.plans, dayPlans);
-  }, [dayPlans]);
+    if (loaded) idbSet(profileKey(STORAGE_KEYS.profile, activeProfileId), profile);
+  }, [loaded, profile]);
 
   useEffect(() => {
-    idbSet(STORAGE_KEYS.customFoods, customFoods);
-  }, [customFoods]);
+    if (loaded) idbSet(profileKey(STORAGE_KEYS.plans, activeProfileId), dayPlans);
+  }, [loaded, dayPlans]);
+
+  useEffect(() => {
+    if (loaded) idbSet(profileKey(STORAGE_KEYS.intake, activeProfileId), intakeLog);
+  }, [loaded, intakeLog]);
+
+  useEffect(() => {
+    if (loaded) idbSet(profileKey(STORAGE_KEYS.weight, activeProfileId), weightLog);
+  }, [loaded, weightLog]);
+
+  useEffect(() => {
+    if (loaded) idbSet(profileKey(STORAGE_KEYS.hiddenFoods, activeProfileId), hiddenFoodIds);
+  }, [loaded, hiddenFoodIds]);
+
+  useEffect(() => {
+    if (loaded) idbSet(profileKey(STORAGE_KEYS.shoppingChecked, activeProfileId), shoppingChecked);
+  }, [loaded, shoppingChecked]);
+
+  useEffect(() => {
+    if (loaded) idbSet(STORAGE_KEYS.customFoods, customFoods);
+  }, [loaded, customFoods]);
+
+  useEffect(() => {
+    if (loaded) idbSet(STORAGE_KEYS.recipes, recipes);
+  }, [loaded, recipes]);
+
+  useEffect(() => {
+    if (loaded) idbSet(STORAGE_KEYS.templates, templates);
+  }, [loaded, templates]);
 
   useEffect(() => {
     if (!toast) return;
-    const h = setTimeout(() => setToast(''), 1800);
+    const h = setTimeout(() => {
+      setToast('');
+      setToastUndo(false);
+    }, toastUndo ? 4000 : 1800);
     return () => clearTimeout(h);
-  }, [toast]);
+  }, [toast, toastUndo]);
+
+  useEffect(() => {
+    const previous = lastSnapshot.current;
+    const tag = historyTag.current;
+    historyTag.current = {};
+    lastSnapshot.current = { profile, dayPlans };
+    if (!loaded || !previous || tag.skip) return;
+    setHistory((h) => recordHistory(h, previous, tag.key));
+  }, [profile, dayPlans]);
 
-  const allFoods = useMemo(() => [...builtins, ...customFoods], [builtins, customFoods]);
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      // Leave text fields their own native undo.
+      if (target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && ['text', 'search'].includes(target.type))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const baseFoods = useMemo(() => [...builtins, ...customFoods], [builtins, customFoods]);
+  const baseFoodsMap = useMemo(() => new Map(baseFoods.map((f) => [f.id, f])), [baseFoods]);
+  // Recipe foods are re-derived whenever an ingredient food changes.
+  const recipeFoods = useMemo(() => recipes.map((r) => recipeToFood(r, baseFoodsMap)), [recipes, baseFoodsMap]);
+  const allFoods = useMemo(() => [...baseFoods, ...recipeFoods], [baseFoods, recipeFoods]);
   const foodsMap = useMemo(() => new Map(allFoods.map((f) => [f.id, f])), [allFoods]);
+  const recipesMap = useMemo(() => new Map(recipes.map((r) => [r.id, r])), [recipes]);
 
-  const cycle = useMemo(() => calculateCycle(profile), [profile]);
-  const validationErrors = useMemo(() => validateProfile(profile), [profile]);
+  const currentCycleStart = cycleStartFor(profile, todayIso());
+  const planWeight = planningWeight(profile, weightLog, todayIso());
+  const trendPoints = useMemo(() => weightTrend(weightLog), [weightLog]);
+  const cycle = useMemo(() => calculateCycle({ ...profile, weightKg: planWeight }), [profile, planWeight]);
+  const validationErrors = useMemo(() => validateProfile(profile, lang), [profile, lang]);
 
   const currentDayTarget: DayTarget | undefined = cycle.dayTargets[selectedDay - 1];
-  const currentEntries: DayFoodEntry[] = dayPlans[selectedDay] ?? [];
-  const currentTotals = useMemo(() => computeTotals(currentEntries, foodsMap), [currentEntries, foodsMap]);
+  const currentPlan: DayPlan = useMemo(() => dayPlans[selectedDay] ?? defaultDayPlan(), [dayPlans, selectedDay]);
+  const currentMeal: Meal = currentPlan.meals.find((m) => m.id === selectedMealId) ?? currentPlan.meals[0];
+  const currentEntries: DayFoodEntry[] = currentMeal.entries;
+  const currentDayEntries = useMemo(() => dayEntries(currentPlan), [currentPlan]);
+  const currentTotals = useMemo(() => computeTotals(currentDayEntries, foodsMap), [currentDayEntries, foodsMap]);
+  const currentMealTotals = useMemo(() => computeTotals(currentEntries, foodsMap), [currentEntries, foodsMap]);
+  const currentMealTargets = useMemo(
+    () => (currentDayTarget ? mealTargets(currentDayTarget, currentPlan.meals) : {}),
+    [currentDayTarget, currentPlan]
+  );
+  const currentSolveReport: SolveResult | undefined = solveReports[selectedDay]?.[currentMeal.id];
 
   const filteredFoods = useMemo(() => {
     const q = search.trim().toLowerCase();
+    const hidden = new Set(hiddenFoodIds);
     return allFoods.filter((f) => {
+      if (hidden.has(f.id)) return false;
       if (category !== 'all' && f.category !== category) return false;
       if (!q) return true;
       return f.name_en.toLowerCase().includes(q) || f.name_zh.toLowerCase().includes(q);
     });
-  }, [allFoods, search, category]);
+  }, [allFoods, search, category, hiddenFoodIds]);
 
   const deviationsByDay = useMemo(() => {
     return cycle.dayTargets.map((target) => {
-      const totals = computeTotals(dayPlans[target.day] ?? [], foodsMap);
+      const totals = computeTotals(dayEntries(dayPlans[target.day]), foodsMap);
       return {
         day: target.day,
         dayType: target.dayType,
@@ -157,18 +418,83 @@ export default function App() {
         totals,
         dp: Number((totals.p - target.proteinTarget).toFixed(2)),
         dc: Number((totals.c - target.carbTarget).toFixed(2)),
-        df: Number((totals.f - target.fatTarget).toFixed(2))
+        df: Number((totals.f - target.fatTarget).toFixed(2)),
+        warnings: nutrientWarnings(totals, profile.nutrientGoals, lang)
       };
     });
-  }, [cycle.dayTargets, dayPlans, foodsMap]);
+  }, [cycle.dayTargets, dayPlans, foodsMap, profile.nutrientGoals, lang]);
+
+  const logCycleDay = cycleDayForDate(profile, logDate);
+  const logTarget = targetForDate(logDate);
+  const logPlannedEntries = logCycleDay && !logCycleDay.frozen ? dayEntries(dayPlans[logCycleDay.day]) : [];
+  const currentLogDay = intakeLog[logDate] ?? emptyIntakeDay(logDate, logTarget);
+  const logAdherence = computeAdherence(currentLogDay, logTarget, foodsMap);
+  const logHistory = useMemo(
+    () =>
+      Object.values(intakeLog)
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map((d) => ({ date: d.date, adherence: computeAdherence(d, undefined, foodsMap) })),
+    [intakeLog, foodsMap]
+  );
+
+  function targetForDate(date: string): DayTarget | undefined {
+    const mapped = cycleDayForDate(profile, date);
+    if (!mapped) return undefined;
+    if (!mapped.frozen) {
+      const weightKg = planningWeight(profile, weightLog, date);
+      if (weightKg === planWeight) return cycle.dayTargets[mapped.day - 1];
+      return calculateCycle({ ...profile, weightKg }).dayTargets[mapped.day - 1];
+    }
+    // Frozen dates fall back to the current target for the same day type.
+    const sameType = cycle.dayTargets.find((d) => d.dayType === mapped.dayType);
+    return sameType && { ...sameType, day: mapped.day };
+  }
+
+  useEffect(() => {
+    // Lock in the weight the current cycle is planned with the first time it is seen.
+    if (!loaded || !profile.useTrendWeight || profile.cycleWeights?.[currentCycleStart] !== undefined) return;
+    historyTag.current = { skip: true };
+    setProfile((p) => ({ ...p, cycleWeights: { ...p.cycleWeights, [currentCycleStart]: planWeight } }));
+  }, [loaded, profile.useTrendWeight, profile.cycleWeights, currentCycleStart, planWeight]);
+
+  function undo() {
+    const step = undoHistory(history, { profile, dayPlans });
+    if (!step) return;
+    restoreSnapshot(step.state);
+    setHistory(step.history);
+  }
+
+  function redo() {
+    const step = redoHistory(history, { profile, dayPlans });
+    if (!step) return;
+    restoreSnapshot(step.state);
+    setHistory(step.history);
+  }
+
+  function restoreSnapshot(snapshot: EditSnapshot) {
+    historyTag.current = { skip: true };
+    setProfile(snapshot.profile);
+    setDayPlans(snapshot.dayPlans);
+    setSolveReports({});
+    setToast('');
+    setToastUndo(false);
+  }
+
+  /** A toast offering to undo the edit it reports. */
+  function undoToast(message: string) {
+    setToast(message);
+    setToastUndo(true);
+  }
 
   function patchProfile<K extends keyof PlannerProfile>(key: K, value: PlannerProfile[K]) {
+    historyTag.current = { key: `profile:${String(key)}` };
     setProfile((p) => ({ ...p, [key]: value }));
   }
 
   function setCycleDays(nextDays: number) {
     setProfile((p) => {
       const cycleDays = clamp(nextDays, 1, 30);
+      if (cycleDays === p.cycleDays) return p;
       let nHigh = Math.min(p.nHigh, cycleDays);
       let nMed = Math.min(p.nMed, cycleDays - nHigh);
       let nLow = cycleDays - nHigh - nMed;
@@ -177,12 +503,13 @@ export default function App() {
       for (let i = 0; i < nHigh; i++) dayPlacement.push('High');
       for (let i = 0; i < nMed; i++) dayPlacement.push('Medium');
       for (let i = 0; i < nLow; i++) dayPlacement.push('Low');
-      return { ...p, cycleDays, nHigh, nMed, nLow, dayPlacement };
+      return { ...p, ...freezeCycle(p, todayIso()), cycleDays, nHigh, nMed, nLow, dayPlacement };
     });
-    setSelectedDay(1);
+    selectDay(1);
   }
 
   function setCounts(nHigh: number, nMed: number, nLow: number) {
+    setPlacementReasons([]);
     const cycleDays = profile.cycleDays;
     if (nHigh + nMed + nLow !== cycleDays) {
       setProfile((p) => ({ ...p, nHigh, nMed, nLow }));
@@ -196,6 +523,7 @@ export default function App() {
   }
 
   function setPlacement(dayIndex: number, dayType: DayType) {
+    setPlacementReasons([]);
     setProfile((p) => {
       const next = [...p.dayPlacement];
       next[dayIndex] = dayType;
@@ -203,58 +531,251 @@ export default function App() {
     });
   }
 
+  function setTrainingSession(weekday: number, intensity: SessionIntensity) {
+    setProfile((p) => {
+      const trainingSchedule = [...p.trainingSchedule];
+      trainingSchedule[weekday] = intensity;
+      return { ...p, trainingSchedule };
+    });
+  }
+
+  function autoPlace() {
+    const result = autoPlacement(profile, cycleIntensities(profile, cycleStartFor(profile, todayIso())), lang);
+    setProfile((p) => ({ ...p, dayPlacement: result.placement }));
+    setPlacementReasons(result.reasons);
+  }
+
   function setCarbShare(dayType: DayType, value: number) {
+    historyTag.current = { key: `carbShare:${dayType}` };
     setProfile((p) => ({ ...p, carbShares: { ...p.carbShares, [dayType]: value } }));
   }
 
   function setFatShare(dayType: DayType, value: number) {
+    historyTag.current = { key: `fatShare:${dayType}` };
     setProfile((p) => ({ ...p, fatShares: { ...p.fatShares, [dayType]: value } }));
   }
 
+  function clearSolveReport(day: number) {
+    setSolveReports((r) => {
+      if (!(day in r)) return r;
+      const next = { ...r };
+      delete next[day];
+      return next;
+    });
+  }
+
+  function updateDayPlan(day: number, fn: (plan: DayPlan) => DayPlan) {
+    setDayPlans((plans) => ({ ...plans, [day]: fn(plans[day] ?? defaultDayPlan()) }));
+  }
+
+  function updateMealEntries(fn: (entries: DayFoodEntry[]) => DayFoodEntry[]) {
+    clearSolveReport(selectedDay);
+    const mealId = currentMeal.id;
+    updateDayPlan(selectedDay, (plan) => ({
+      ...plan,
+      meals: plan.meals.map((m) => (m.id === mealId ? { ...m, entries: fn(m.entries) } : m))
+    }));
+  }
+
+  function addMeal(kind: MealKind) {
+    const meal = createMeal(kind, t(lang, `meal.${kind}`));
+    clearSolveReport(selectedDay);
+    updateDayPlan(selectedDay, (plan) => ({ ...plan, meals: [...plan.meals, meal] }));
+    setSelectedMealId(meal.id);
+  }
+
+  function removeMeal(mealId: string) {
+    if (currentPlan.meals.length <= 1) return;
+    clearSolveReport(selectedDay);
+    updateDayPlan(selectedDay, (plan) => ({ ...plan, meals: plan.meals.filter((m) => m.id !== mealId) }));
+    if (mealId === currentMeal.id) setSelectedMealId('');
+  }
+
+  function patchMeal(mealId: string, patch: Partial<Pick<Meal, 'name' | 'split'>>) {
+    historyTag.current = { key: `meal:${selectedDay}:${mealId}:${Object.keys(patch).join()}` };
+    clearSolveReport(selectedDay);
+    updateDayPlan(selectedDay, (plan) => ({
+      ...plan,
+      meals: plan.meals.map((m) => (m.id === mealId ? { ...m, ...patch } : m))
+    }));
+  }
+
+  function selectDay(day: number) {
+    setSelectedDay(day);
+    setSelectedMealId('');
+  }
+
+  function openDay(day: number) {
+    selectDay(day);
+    setActiveTab('foods');
+  }
+
+  function openToday() {
+    const today = cycleDayForDate(profile, todayIso());
+    if (!today) {
+      setToast(t(lang, 'toast.cycleStartsOn', { date: profile.cycleStartDate }));
+      return;
+    }
+    openDay(today.day);
+  }
+
   function toggleFood(foodId: string) {
-    setDayPlans((plans) => {
-      const entries = [...(plans[selectedDay] ?? [])];
+    updateMealEntries((current) => {
+      const entries = [...current];
       const idx = entries.findIndex((e) => e.foodId === foodId);
       if (idx >= 0) {
         entries.splice(idx, 1);
       } else {
         const food = foodsMap.get(foodId);
+        const basis = food?.variants[0]?.basis ?? 'raw';
+        // Portion-based foods start out counted in their first portion.
+        const portion = food?.portionBased ? portionsFor(food, basis)[0] : undefined;
         entries.push({
           foodId,
-          basis: food?.variants[0]?.basis ?? 'raw',
-          grams: 0
+          basis,
+          grams: 0,
+          ...(portion ? { unit: portion.name_en } : {})
         });
       }
-      return { ...plans, [selectedDay]: entries };
+      return entries;
     });
   }
 
   function patchEntry(foodId: string, patch: Partial<DayFoodEntry>) {
-    setDayPlans((plans) => {
-      const entries = [...(plans[selectedDay] ?? [])];
+    historyTag.current = { key: `entry:${selectedDay}:${currentMeal.id}:${foodId}:${Object.keys(patch).join()}` };
+    updateMealEntries((current) => {
+      const entries = [...current];
       const idx = entries.findIndex((e) => e.foodId === foodId);
-      if (idx < 0) return plans;
-      entries[idx] = { ...entries[idx], ...patch };
-      return { ...plans, [selectedDay]: entries };
+      if (idx < 0) return current;
+      const entry = entries[idx];
+      const food = foodsMap.get(foodId);
+      const basis = patch.basis;
+      if (food && basis && basis !== entry.basis && patch.grams === undefined) {
+        // Switching basis converts the amounts through the food's yield so the macros stay put.
+        const convert = (g?: number) => (g === undefined ? undefined : convertGrams(food, g, entry.basis, basis));
+        patch = {
+          ...patch,
+          grams: convert(entry.grams),
+          minGrams: convert(entry.minGrams),
+          maxGrams: convert(entry.maxGrams),
+          stepGrams: convert(entry.stepGrams)
+        };
+      }
+      entries[idx] = { ...entry, ...patch };
+      return entries;
     });
   }
 
   function handleAutoGenerate() {
     if (!currentDayTarget) return;
-    const generated = greedyGenerate(currentEntries, foodsMap, {
-      p: currentDayTarget.proteinTarget,
-      c: currentDayTarget.carbTarget,
-      f: currentDayTarget.fatTarget
+    const { plan, reports } = rescalePlan(currentPlan, currentDayTarget, foodsMap);
+    updateDayPlan(selectedDay, () => plan);
+    setSolveReports((r) => ({ ...r, [selectedDay]: reports }));
+    if (Object.values(reports).every((r) => r.exact)) {
+      undoToast(t(lang, 'toast.autoGenerated'));
+    } else {
+      undoToast(t(lang, 'toast.autoGeneratedBest'));
+    }
+  }
+
+  function saveTemplate(name: string) {
+    const template = templateFromPlan(name.trim() || t(lang, 'templates.dayN', { day: String(selectedDay) }), currentPlan, currentDayTarget?.dayType);
+    setTemplates((list) => [...list, template]);
+    setToast(t(lang, 'toast.templateSaved'));
+  }
+
+  /** Copies a template into the selected day or every day of a type, optionally re-solving grams for each day's target. */
+  function applyTemplate(templateId: string, scope: 'day' | DayType, rescale: boolean) {
+    const template = templates.find((x) => x.id === templateId);
+    if (!template) return;
+    const targets = scope === 'day' ? cycle.dayTargets.filter((d) => d.day === selectedDay) : cycle.dayTargets.filter((d) => d.dayType === scope);
+    const plans: Record<number, DayPlan> = {};
+    const reports: Record<number, Record<string, SolveResult>> = {};
+    targets.forEach((target) => {
+      const plan = planFromTemplate(template);
+      if (rescale) {
+        const result = rescalePlan(plan, target, foodsMap);
+        plans[target.day] = result.plan;
+        reports[target.day] = result.reports;
+      } else {
+        plans[target.day] = plan;
+      }
+    });
+    setDayPlans((current) => ({ ...current, ...plans }));
+    setSolveReports((current) => {
+      const next = { ...current, ...reports };
+      if (!rescale) targets.forEach((d) => delete next[d.day]);
+      return next;
+    });
+    undoToast(t(lang, 'toast.templateApplied', { count: targets.length }));
+  }
+
+  function importPlans(plans: Record<number, DayPlan>) {
+    setDayPlans((current) => ({ ...current, ...plans }));
+    setSolveReports((current) => {
+      const next = { ...current };
+      Object.keys(plans).forEach((day) => delete next[Number(day)]);
+      return next;
     });
-    setDayPlans((plans) => ({ ...plans, [selectedDay]: generated }));
-    setToast(lang === 'en' ? 'Auto-generated.' : '已自动生成。');
+    undoToast(t(lang, 'planImport.applied', { days: Object.keys(plans).length }));
+  }
+
+  function patchTemplate(id: string, patch: Partial<DayTemplate>) {
+    setTemplates((list) => list.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+  }
+
+  function deleteTemplate(id: string) {
+    setTemplates((list) => list.filter((x) => x.id !== id));
+  }
+
+  function updateLogDay(fn: (entries: IntakeEntry[]) => IntakeEntry[]) {
+    setIntakeLog((log) => {
+      const existing = log[logDate] ?? emptyIntakeDay(logDate, logTarget);
+      const entries = fn(existing.entries);
+      const next = { ...log };
+      if (entries.length) {
+        next[logDate] = { ...existing, target: existing.target ?? logTarget, entries };
+      } else {
+        delete next[logDate];
+      }
+      return next;
+    });
+  }
+
+  function confirmPlanned(entries: DayFoodEntry[]) {
+    updateLogDay((current) => [
+      ...current,
+      ...entries.map((e) => ({ foodId: e.foodId, basis: e.basis, grams: e.grams, fromPlan: true }))
+    ]);
+  }
+
+  function patchLogEntry(index: number, patch: Partial<IntakeEntry>) {
+    updateLogDay((current) => current.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+  }
+
+  function removeLogEntry(index: number) {
+    updateLogDay((current) => current.filter((_, i) => i !== index));
+  }
+
+  function addOffPlanFood(foodId: string) {
+    const food = foodsMap.get(foodId);
+    updateLogDay((current) => [...current, { foodId, basis: food?.variants[0]?.basis ?? 'raw', grams: 100, fromPlan: false }]);
+  }
+
+  function addWeight(date: string, kg: number) {
+    if (!date || !(kg > 0)) return;
+    setWeightLog((log) => [...log.filter((w) => w.date !== date), { date, kg }].sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  function removeWeight(date: string) {
+    setWeightLog((log) => log.filter((w) => w.date !== date));
   }
 
   function addCustomFood() {
     const nameEn = customForm.name_en.trim();
     const nameZh = customForm.name_zh.trim() || nameEn;
     if (!nameEn) {
-      setToast(lang === 'en' ? 'Custom food name required.' : '请填写食物名称。');
+      setToast(t(lang, 'toast.customNameRequired'));
       return;
     }
     const id = `custom_${Date.now()}`;
@@ -270,10 +791,20 @@ export default function App() {
           kcal: customForm.kcal,
           p: customForm.p,
           c: customForm.c,
-          f: customForm.f
+          f: customForm.f,
+          fiber: customForm.fiber,
+          sugar: customForm.sugar,
+          satFat: customForm.satFat,
+          sodium: customForm.sodium
         }
       ]
     };
+    if (customForm.yieldRatio > 0) {
+      food.yieldRatio = customForm.yieldRatio;
+      // With a yield, the other side of raw/cooked can be derived.
+      const other: Basis = customForm.basis === 'cooked' ? 'raw' : 'cooked';
+      food.variants.push(deriveVariant(food.variants[0], other, customForm.yieldRatio));
+    }
     setCustomFoods((f) => [food, ...f]);
     setCustomForm({
       name_en: '',
@@ -283,91 +814,240 @@ export default function App() {
       p: 0,
       c: 0,
       f: 0,
-      kcal: 0
+      kcal: 0,
+      fiber: undefined,
+      sugar: undefined,
+      satFat: undefined,
+      sodium: undefined,
+      yieldRatio: 0
     });
-    setToast(lang === 'en' ? 'Custom food saved.' : '已保存自定义食物。');
+    setToast(t(lang, 'toast.customFoodSaved'));
+  }
+
+  function patchCustomFood(id: string, patch: Partial<FoodItem>) {
+    setCustomFoods((foods) =>
+      foods.map((f) => {
+        if (f.id !== id) return f;
+        const next = { ...f, ...patch };
+        return 'yieldRatio' in patch ? withYield(next, patch.yieldRatio) : next;
+      })
+    );
+  }
+
+  function importFoods(foods: FoodItem[]) {
+    setCustomFoods((f) => [...foods, ...f]);
+    setToast(t(lang, 'toast.foodsImported', { count: foods.length }));
+  }
+
+  function saveRecipe(recipe: Recipe) {
+    setRecipes((list) => (list.some((r) => r.id === recipe.id) ? list.map((r) => (r.id === recipe.id ? recipe : r)) : [...list, recipe]));
+    setToast(t(lang, 'toast.recipeSaved'));
+  }
+
+  function deleteRecipe(id: string) {
+    setRecipes((list) => list.filter((r) => r.id !== id));
   }
 
   function exportCycleCsv() {
     const rows = cycle.dayTargets.map((d) => [d.day, d.dayType, d.proteinTarget, d.carbTarget, d.fatTarget]);
-    exportCsv('cycle_targets.csv', ['day', 'day_type', 'protein_target_g', 'carb_target_g', 'fat_target_g'], rows);
+    const headers = ['day', 'day_type', 'protein_target_g', 'carb_target_g', 'fat_target_g'].map((h) => columnHeader(h, lang));
+    exportCsv('cycle_targets.csv', headers, rows);
+  }
+
+  function applyData(data: AppData) {
+    historyTag.current = { skip: true };
+    setHistory(emptyHistory());
+    setLang(data.lang);
+    setProfile({ ...data.profile, dayPlacement: normalizePlacement(data.profile) });
+    setDayPlans(data.dayPlans);
+    setCustomFoods(data.customFoods);
+    setRecipes(data.recipes);
+    setIntakeLog(data.intakeLog);
+    setWeightLog(data.weightLog);
+    setHiddenFoodIds(data.hiddenFoodIds);
+    setTemplates(data.templates);
+    setShoppingChecked(data.shoppingChecked);
+    setSolveReports({});
+    setPlacementReasons([]);
+  }
+
+  function currentData(): AppData {
+    return { lang, profile, dayPlans, customFoods, recipes, intakeLog, weightLog, hiddenFoodIds, templates, shoppingChecked };
+  }
+
+  async function switchProfile(id: string) {
+    if (id === activeProfileId) return;
+    const { data, issues } = await loadProfileData(id);
+    setProfileRegistry((r) => ({ ...r, activeId: id }));
+    applyData(data);
+    setSelectedDay(1);
+    setSelectedMealId('');
+    if (issues.length) setToast(issues.join(' '));
+  }
+
+  function saveProfileData(profileId: string, data: AppData) {
+    const key = (k: string) => profileKey(k, profileId);
+    idbSet(key(STORAGE_KEYS.schema), SCHEMA_VERSION);
+    idbSet(key(STORAGE_KEYS.lang), data.lang);
+    idbSet(key(STORAGE_KEYS.profile), data.profile);
+    idbSet(key(STORAGE_KEYS.plans), data.dayPlans);
+    idbSet(key(STORAGE_KEYS.intake), data.intakeLog);
+    idbSet(key(STORAGE_KEYS.weight), data.weightLog);
+    idbSet(key(STORAGE_KEYS.hiddenFoods), data.hiddenFoodIds);
+    idbSet(key(STORAGE_KEYS.shoppingChecked), data.shoppingChecked);
+  }
+
+  /** Adds a profile holding `data` and makes it active. */
+  function addProfile(name: string, data: AppData) {
+    const id = newProfileId();
+    saveProfileData(id, data);
+    setProfileRegistry((r) => ({ activeId: id, profiles: [...r.profiles, { id, name: uniqueProfileName(name, r.profiles) }] }));
+    applyData(data);
+    setSelectedDay(1);
+    setSelectedMealId('');
+  }
+
+  function createProfile(name: string) {
+    addProfile(name, { ...defaultAppData, lang, customFoods, recipes, templates, profile: { ...defaultProfile, cycleStartDate: todayIso() } });
+    setToast(t(lang, 'toast.profileCreated'));
+  }
+
+  function duplicateProfile() {
+    const source = profileRegistry.profiles.find((p) => p.id === activeProfileId);
+    addProfile(t(lang, 'profiles.copyName', { name: source?.name ?? '' }), currentData());
+    setToast(t(lang, 'toast.profileDuplicated'));
+  }
+
+  function renameProfile(id: string, name: string) {
+    setProfileRegistry((r) => ({ ...r, profiles: r.profiles.map((p) => (p.id === id ? { ...p, name } : p)) }));
+  }
+
+  async function deleteProfile(id: string) {
+    const remaining = profileRegistry.profiles.filter((p) => p.id !== id);
+    if (!remaining.length) return;
+    if (id === activeProfileId) await switchProfile(remaining[0].id);
+    setProfileRegistry((r) => ({ ...r, profiles: r.profiles.filter((p) => p.id !== id) }));
+    await deleteProfileData(PROFILE_SCOPED_KEYS, id);
+    setToast(t(lang, 'toast.profileDeleted'));
+  }
+
+  function setFoodHidden(foodId: string, hidden: boolean) {
+    setHiddenFoodIds((ids) => (hidden ? [...ids.filter((x) => x !== foodId), foodId] : ids.filter((x) => x !== foodId)));
+  }
+
+  function exportBackup() {
+    const backup = createBackup(currentData());
+    const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+    downloadDataUrl(`carbcycler_backup_${todayIso()}.json`, url);
+    URL.revokeObjectURL(url);
+  }
+
+  function restoreBackup(result: LoadResult) {
+    applyData(result.data);
+    setSelectedDay(1);
+    setSelectedMealId('');
+    setToast(t(lang, 'toast.backupRestored'));
   }
 
   function exportAllXlsx() {
-    exportXlsx(cycle.dayTargets, dayPlans, foodsMap);
-  }
-
-  function renderPoster(kind: 'day' | 'cycle') {
-    const canvas = kind === 'day' ? dayCanvasRef.current : cycleCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    canvas.width = 1200;
-    canvas.height = kind === 'day' ? 1400 : 1800;
-
-    ctx.fillStyle = '#f8fafc';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    ctx.fillStyle = '#0f172a';
-    ctx.font = '600 48px -apple-system, BlinkMacSystemFont, Segoe UI, sans-serif';
-    ctx.fillText(kind === 'day' ? `Day ${selectedDay} Plan` : 'Cycle Summary', 60, 90);
-
-    ctx.font = '400 28px -apple-system, BlinkMacSystemFont, Segoe UI, sans-serif';
-    ctx.fillStyle = '#334155';
-
-    let y = 160;
-    if (kind === 'day' && currentDayTarget) {
-      ctx.fillText(`Type: ${currentDayTarget.dayType}`, 60, y);
-      y += 44;
-      ctx.fillText(`Targets P/C/F: ${currentDayTarget.proteinTarget} / ${currentDayTarget.carbTarget} / ${currentDayTarget.fatTarget} g`, 60, y);
-      y += 44;
-      ctx.fillText(`Actual P/C/F: ${currentTotals.p} / ${currentTotals.c} / ${currentTotals.f} g`, 60, y);
-      y += 44;
-      ctx.fillText(`Deviation: ${(currentTotals.p - currentDayTarget.proteinTarget).toFixed(1)} / ${(currentTotals.c - currentDayTarget.carbTarget).toFixed(1)} / ${(currentTotals.f - currentDayTarget.fatTarget).toFixed(1)} g`, 60, y);
-      y += 70;
-      ctx.fillStyle = '#0f172a';
-      ctx.font = '600 32px -apple-system, BlinkMacSystemFont, Segoe UI, sans-serif';
-      ctx.fillText('Foods', 60, y);
-      y += 42;
-      ctx.font = '400 26px -apple-system, BlinkMacSystemFont, Segoe UI, sans-serif';
-      ctx.fillStyle = '#334155';
-      currentEntries.forEach((e) => {
-        const food = foodsMap.get(e.foodId);
-        const name = lang === 'zh' ? food?.name_zh : food?.name_en;
-        const v = food?.variants.find((x) => x.basis === e.basis) ?? food?.variants[0];
-        const ratio = e.grams / 100;
-        const p = ((v?.p ?? 0) * ratio).toFixed(1);
-        const c = ((v?.c ?? 0) * ratio).toFixed(1);
-        const f = ((v?.f ?? 0) * ratio).toFixed(1);
-        ctx.fillText(`${name} (${e.basis}) ${e.grams.toFixed(1)}g  P/C/F ${p}/${c}/${f}`, 60, y);
-        y += 36;
-      });
-    } else {
-      ctx.fillText(`Weight: ${profile.weightKg} kg, Body: ${profile.bodyType}`, 60, y);
-      y += 44;
-      ctx.fillText(`Cycle Days: ${profile.cycleDays}`, 60, y);
-      y += 44;
-      ctx.fillText(`P_day=${cycle.pDay}g  C_total=${cycle.cTotal}g  F_total=${cycle.fTotal}g`, 60, y);
-      y += 60;
-      ctx.fillStyle = '#0f172a';
-      ctx.font = '600 32px -apple-system, BlinkMacSystemFont, Segoe UI, sans-serif';
-      ctx.fillText('Day Targets & Deviations', 60, y);
-      y += 42;
-      ctx.fillStyle = '#334155';
-      ctx.font = '400 24px -apple-system, BlinkMacSystemFont, Segoe UI, sans-serif';
-      deviationsByDay.forEach((d) => {
-        ctx.fillText(
-          `D${d.day} ${d.dayType} T(${d.target.proteinTarget}/${d.target.carbTarget}/${d.target.fatTarget}) A(${d.totals.p}/${d.totals.c}/${d.totals.f}) Δ(${d.dp}/${d.dc}/${d.df})`,
-          60,
-          y
-        );
-        y += 34;
-      });
-    }
+    exportShoppingXlsx(buildShoppingList(cyclePlans(dayPlans, profile.cycleDays), foodsMap, recipesMap));
+  }
+
+  /** The full workbook, with `items` as its ShoppingList sheet. */
+  function exportShoppingXlsx(items: ShoppingItem[]) {
+    exportXlsx(cycle.dayTargets, dayPlans, foodsMap, {
+      nutrientGoals: profile.nutrientGoals,
+      recipes: expandRecipes ? recipesMap : undefined,
+      shopping: { items, checked: shoppingChecked },
+      lang
+    });
+  }
+
+  function exportShoppingCsv(items: ShoppingItem[]) {
+    exportCsv('shopping_list.csv', SHOPPING_HEADERS.map((h) => columnHeader(h, lang)), shoppingRows(items, shoppingChecked));
+  }
+
+  function toggleShoppingItem(key: string, checked: boolean) {
+    setShoppingChecked((list) => (checked ? [...list.filter((k) => k !== key), key] : list.filter((k) => k !== key)));
+  }
+
+  /** Downloads poster pages, numbering the files when there is more than one. */
+  function downloadPages(baseName: string, pages: string[]) {
+    pages.forEach((url, i) => downloadDataUrl(pages.length > 1 ? `${baseName}_${i + 1}.png` : `${baseName}.png`, url));
+    if (pages.length) setToast(pages.length > 1 ? t(lang, 'poster.pagesExported', { count: pages.length }) : t(lang, 'imageExported'));
+  }
+
+  function renderShoppingImage(items: ShoppingItem[], title: string) {
+    downloadPages('shopping_list', renderPoster(shoppingPosterDoc(lang, title, items, shoppingChecked), lang, { theme: profile.posterTheme }));
+  }
+
+  function exportPoster(kind: 'day' | 'cycle') {
+    const doc =
+      kind === 'day'
+        ? dayPosterDoc(lang, selectedDay, currentDayTarget, currentPlan, currentTotals, deviationsByDay[selectedDay - 1]?.warnings ?? [], foodsMap)
+        : cyclePosterDoc(lang, profile, planWeight, cycle, deviationsByDay);
+    downloadPages(kind === 'day' ? `day_${selectedDay}_poster` : 'cycle_summary_poster', renderPoster(doc, lang, { theme: profile.posterTheme }));
+  }
 
-    const url = canvas.toDataURL('image/png');
-    downloadDataUrl(kind === 'day' ? `day_${selectedDay}_poster.png` : 'cycle_summary_poster.png', url);
-    setToast(lang === 'en' ? 'Image exported.' : '图片已导出。');
+  /** Cover, one page per cycle day and the cycle shopping list, rendered offline into one PDF. */
+  function exportPdf() {
+    const shopping = buildShoppingList(cyclePlans(dayPlans, profile.cycleDays), foodsMap, recipesMap);
+    const docs = [
+      coverPosterDoc(lang, `${activeProfileName} · ${todayIso()}`, profile, planWeight, cycle, deviationsByDay),
+      ...deviationsByDay.map((d) => dayPosterDoc(lang, d.day, d.target, dayPlans[d.day] ?? defaultDayPlan(), d.totals, d.warnings, foodsMap)),
+      shoppingPosterDoc(lang, t(lang, 'shopping.cycleTitle', { days: profile.cycleDays }), shopping, shoppingChecked)
+    ];
+    const height = Math.round((POSTER_WIDTH * A4_HEIGHT_PT) / A4_WIDTH_PT);
+    const pages = docs
+      .flatMap((doc) => renderPoster(doc, lang, { height, format: 'image/jpeg' }))
+      .map((url) => ({ jpeg: dataUrlBytes(url), width: POSTER_WIDTH, height }));
+    if (!pages.length) return;
+    const url = URL.createObjectURL(new Blob([buildPdf(pages)], { type: 'application/pdf' }));
+    downloadDataUrl(`cycle_plan_${todayIso()}.pdf`, url);
+    URL.revokeObjectURL(url);
+    setToast(t(lang, 'pdf.exported', { pages: pages.length }));
+  }
+
+  function exportIcs(cycles: number, includeMeals: boolean) {
+    const { ics, events } = buildIcs(profile, cycle.dayTargets, dayPlans, foodsMap, {
+      lang,
+      profileId: activeProfileId,
+      calendarName: `${t(lang, 'appTitle')} · ${activeProfileName}`,
+      from: currentCycleStart,
+      cycles,
+      includeMeals
+    });
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+    downloadDataUrl(`carbcycler_${currentCycleStart}.ics`, url);
+    URL.revokeObjectURL(url);
+    setToast(t(lang, 'ical.exported', { count: events }));
+  }
+
+  function createShare(): Promise<string> {
+    if (validationErrors.length) return Promise.reject(new Error(validationErrors.join(' ')));
+    return createShareLink(window.location.href, buildSharePayload(profile, dayPlans, customFoods, recipes));
+  }
+
+  function clearShareHash() {
+    setIncomingShare(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+
+  /** Shared foods and recipes are added to the shared library unless one with the same id exists. */
+  function importShare(result: LoadResult) {
+    const foodIds = new Set(customFoods.map((f) => f.id));
+    const recipeIds = new Set(recipes.map((r) => r.id));
+    addProfile(t(lang, 'share.profileName'), {
+      ...defaultAppData,
+      lang,
+      templates,
+      profile: result.data.profile,
+      dayPlans: result.data.dayPlans,
+      customFoods: [...customFoods, ...result.data.customFoods.filter((f) => !foodIds.has(f.id))],
+      recipes: [...recipes, ...result.data.recipes.filter((r) => !recipeIds.has(r.id))]
+    });
+    clearShareHash();
+    setToast(t(lang, 'share.imported'));
   }
 
   const cycleOptions = [3, 4, 5, 7];
@@ -381,15 +1061,48 @@ export default function App() {
       <header className="topbar">
         <h1 className="app-title">CarbCycler</h1>
         <div className="row">
-          <label className="small">Language</label>
+          {profileRegistry.profiles.length > 1 && (
+            <select value={activeProfileId} onChange={(e) => switchProfile(e.target.value)} aria-label={t(lang, 'tab.profile')}>
+              {profileRegistry.profiles.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          )}
+          <button onClick={undo} disabled={!history.past.length} title="Ctrl/⌘+Z">{t(lang, 'undo')}</button>
+          <button onClick={redo} disabled={!history.future.length} title="Ctrl/⌘+Shift+Z">{t(lang, 'redo')}</button>
+          <button onClick={openToday}>{t(lang, 'today')}</button>
+          <label className="small">{t(lang, 'language')}</label>
           <select value={lang} onChange={(e) => setLang(e.target.value as Language)}>
-            <option value="en">English</option>
-            <option value="zh">中文</option>
+            {LANGUAGES.map((l) => (
+              <option key={l.code} value={l.code}>{l.label}</option>
+            ))}
           </select>
         </div>
       </header>
 
-      <SegmentedTabs active={activeTab} onChange={setActiveTab} />
+      {incomingShare && (
+        <ShareImportPanel
+          lang={lang}
+          result={incomingShare.result}
+          error={incomingShare.error}
+          onImport={importShare}
+          onDismiss={clearShareHash}
+        />
+      )}
+
+      <SegmentedTabs lang={lang} active={activeTab} onChange={setActiveTab} />
+
+      {activeTab === 'profile' && (
+        <ProfileManager
+          lang={lang}
+          registry={profileRegistry}
+          onSwitch={switchProfile}
+          onCreate={createProfile}
+          onDuplicate={duplicateProfile}
+          onRename={renameProfile}
+          onDelete={deleteProfile}
+        />
+      )}
 
       {activeTab === 'profile' && (
         <ProfileTab
@@ -401,19 +1114,99 @@ export default function App() {
         />
       )}
 
+      {activeTab === 'profile' && (
+        <BackupPanel lang={lang} defaults={defaultAppData} onExport={exportBackup} onRestore={restoreBackup} />
+      )}
+
+      {activeTab === 'profile' && (
+        <SharePanel
+          lang={lang}
+          errors={validationErrors}
+          onCreate={createShare}
+          onCopied={() => setToast(t(lang, 'share.copied'))}
+          onDownloadQr={(url) => downloadDataUrl(`carbcycler_share_${todayIso()}.png`, url)}
+        />
+      )}
+
       {activeTab === 'plan' && (
         <PlanTab
+          lang={lang}
           profile={profile}
           cycle={cycle}
           errors={validationErrors}
           deviations={deviationsByDay}
           setCounts={setCounts}
           setPlacement={setPlacement}
+          placementReasons={placementReasons}
+          setTrainingSession={setTrainingSession}
+          onAutoPlace={autoPlace}
           setCarbShare={setCarbShare}
           setFatShare={setFatShare}
           onExportCsv={exportCycleCsv}
           onExportXlsx={exportAllXlsx}
-          onExportPoster={() => renderPoster('cycle')}
+          onExportPdf={exportPdf}
+          expandRecipes={expandRecipes}
+          onExpandRecipes={setExpandRecipes}
+          posterTheme={profile.posterTheme ?? 'light'}
+          onPosterTheme={(theme) => patchProfile('posterTheme', theme)}
+          onExportPoster={() => exportPoster('cycle')}
+        />
+      )}
+
+      {activeTab === 'plan' && (
+        <PlanImportPanel lang={lang} dayPlans={dayPlans} foodsMap={foodsMap} cycleDays={profile.cycleDays} onApply={importPlans} />
+      )}
+
+      {activeTab === 'calendar' && (
+        <CalendarTab lang={lang} profile={profile} cycleStart={currentCycleStart} onOpenDay={openDay} onExportIcs={exportIcs} />
+      )}
+
+      {activeTab === 'shopping' && (
+        <ShoppingTab
+          lang={lang}
+          profile={profile}
+          dayPlans={dayPlans}
+          foodsMap={foodsMap}
+          recipesMap={recipesMap}
+          checked={shoppingChecked}
+          onToggle={toggleShoppingItem}
+          onClearChecked={() => setShoppingChecked([])}
+          onExportCsv={exportShoppingCsv}
+          onExportXlsx={exportShoppingXlsx}
+          onExportImage={renderShoppingImage}
+        />
+      )}
+
+      {activeTab === 'weight' && (
+        <WeightTab
+          lang={lang}
+          profile={profile}
+          trend={trendPoints}
+          planWeight={planWeight}
+          cycleStart={currentCycleStart}
+          onAdd={addWeight}
+          onRemove={removeWeight}
+          onToggleTrend={(on) => patchProfile('useTrendWeight', on)}
+        />
+      )}
+
+      {activeTab === 'log' && (
+        <LogTab
+          lang={lang}
+          date={logDate}
+          cycleLabel={logCycleDay && `D${logCycleDay.day} (${t(lang, `dayType.${logCycleDay.dayType}`)})`}
+          target={logTarget}
+          plannedEntries={logPlannedEntries}
+          logDay={currentLogDay}
+          adherence={logAdherence}
+          history={logHistory}
+          allFoods={allFoods}
+          foodsMap={foodsMap}
+          onSetDate={setLogDate}
+          onConfirmPlanned={confirmPlanned}
+          onPatchEntry={patchLogEntry}
+          onRemoveEntry={removeLogEntry}
+          onAddOffPlan={addOffPlanFood}
         />
       )}
 
@@ -425,36 +1218,69 @@ export default function App() {
           currentDayTarget={currentDayTarget}
           currentEntries={currentEntries}
           currentTotals={currentTotals}
+          nutrientWarnings={deviationsByDay[selectedDay - 1]?.warnings ?? []}
+          meals={currentPlan.meals}
+          currentMeal={currentMeal}
+          mealTarget={currentMealTargets[currentMeal.id]}
+          mealTotals={currentMealTotals}
+          solveReport={currentSolveReport}
           validationErrors={validationErrors}
           search={search}
           category={category}
-          categories={categories}
+          categories={categories.map((key) => ({ key, label: t(lang, `cat.${key}`) }))}
           filteredFoods={filteredFoods}
           foodsMap={foodsMap}
           customForm={customForm}
-          onSetSelectedDay={setSelectedDay}
+          onSetSelectedDay={selectDay}
+          onSelectMeal={setSelectedMealId}
+          onAddMeal={addMeal}
+          onRemoveMeal={removeMeal}
+          onPatchMeal={patchMeal}
           onSearch={setSearch}
           onCategory={setCategory}
           onToggleFood={toggleFood}
           onPatchEntry={patchEntry}
           onAutoGenerate={handleAutoGenerate}
-          onExportDayPoster={() => renderPoster('day')}
+          onExportDayPoster={() => exportPoster('day')}
           onSetCustomForm={(patch) => setCustomForm((f) => ({ ...f, ...patch }))}
           onAddCustomFood={addCustomFood}
+          onImportFoods={importFoods}
+          customFoods={customFoods}
+          onPatchCustomFood={patchCustomFood}
+          hiddenFoodIds={hiddenFoodIds}
+          onSetFoodHidden={setFoodHidden}
+          recipes={recipes}
+          baseFoods={baseFoods}
+          onSaveRecipe={saveRecipe}
+          onDeleteRecipe={deleteRecipe}
+          templates={templates}
+          onSaveTemplate={saveTemplate}
+          onApplyTemplate={applyTemplate}
+          onPatchTemplate={patchTemplate}
+          onDeleteTemplate={deleteTemplate}
         />
       )}
 
       {activeTab === 'foods' && (
         <MacroDeltaBar
+          lang={lang}
           proteinRemaining={proteinRemaining}
           carbRemaining={carbRemaining}
           fatRemaining={fatRemaining}
         />
       )}
 
-      <canvas ref={dayCanvasRef} style={{ display: 'none' }} />
-      <canvas ref={cycleCanvasRef} style={{ display: 'none' }} />
-      {toast && <div className="toast">{toast}</div>}
+      {toast && (
+        <div className="toast">
+          {toast}
+          {toastUndo && (
+            <>
+              {' — '}
+              <button className="toast-action" onClick={undo}>{t(lang, 'undo')}</button>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
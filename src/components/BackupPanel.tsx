@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import type { Language } from '../types';
+import { t } from '../i18n';
+import { parseBackup, type AppData, type LoadResult } from '../utils/backup';
+
+interface BackupPanelProps {
+  lang: Language;
+  defaults: AppData;
+  onExport: () => void;
+  onRestore: (result: LoadResult) => void;
+}
+
+export function BackupPanel({ lang, defaults, onExport, onRestore }: BackupPanelProps) {
+  const [pending, setPending] = useState<LoadResult | null>(null);
+  const [fileError, setFileError] = useState('');
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setFileError('');
+    setPending(null);
+    try {
+      setPending(parseBackup(await file.text(), defaults, lang));
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function handleRestore() {
+    if (!pending) return;
+    onRestore(pending);
+    setPending(null);
+  }
+
+  const summary = pending && {
+    days: Object.keys(pending.data.dayPlans).length,
+    foods: pending.data.customFoods.length,
+    recipes: pending.data.recipes.length,
+    logged: Object.keys(pending.data.intakeLog).length,
+    weights: pending.data.weightLog.length
+  };
+
+  return (
+    <section className="surface stack-16">
+      <h2 className="title">{t(lang, 'backup.title')}</h2>
+      <p className="small">
+        {t(lang, 'backup.help')}
+      </p>
+      <div className="row wrap">
+        <button onClick={onExport}>{t(lang, 'backup.download')}</button>
+        <input type="file" accept=".json,application/json" onChange={(e) => handleFile(e.target.files?.[0])} />
+      </div>
+      {fileError && <div className="error-box">{fileError}</div>}
+      {pending && summary && (
+        <div className="subsurface stack-8">
+          <div className="small">
+            {t(lang, 'backup.summary', summary)}
+          </div>
+          {pending.issues.map((issue) => (
+            <div key={issue} className="warn-text">{issue}</div>
+          ))}
+          <div className="row">
+            <button onClick={handleRestore}>{t(lang, 'backup.restore')}</button>
+            <button onClick={() => setPending(null)}>{t(lang, 'cancel')}</button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import type { Language, PlannerProfile } from '../types';
+import { t, type MessageKey } from '../i18n';
+import { WEEKDAYS, addDays, cycleAgenda, todayIso, weekdayIndex } from '../utils/calendar';
+
+interface CalendarTabProps {
+  lang: Language;
+  profile: PlannerProfile;
+  /** Start of the current cycle; the .ics export begins here. */
+  cycleStart: string;
+  onOpenDay: (day: number) => void;
+  onExportIcs: (cycles: number, includeMeals: boolean) => void;
+}
+
+const WEEKS_SHOWN = 5;
+function mondayOf(iso: string): string {
+  return addDays(iso, -weekdayIndex(iso));
+}
+
+export function CalendarTab({ lang, profile, cycleStart, onOpenDay, onExportIcs }: CalendarTabProps) {
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [icsCycles, setIcsCycles] = useState(4);
+  const [icsMeals, setIcsMeals] = useState(false);
+  const today = todayIso();
+  const from = addDays(mondayOf(today), weekOffset * 7);
+  const days = cycleAgenda(profile, from, WEEKS_SHOWN * 7);
+
+  return (
+    <section className="surface stack-16">
+      <h2 className="title">{t(lang, 'calendar')}</h2>
+
+      <div className="row wrap">
+        <button onClick={() => setWeekOffset((w) => w - WEEKS_SHOWN)}>‹</button>
+        <button onClick={() => setWeekOffset(0)}>{t(lang, 'today')}</button>
+        <button onClick={() => setWeekOffset((w) => w + WEEKS_SHOWN)}>›</button>
+        <span className="small">D1 = {profile.cycleStartDate}</span>
+      </div>
+
+      <div className="calendar-grid">
+        {WEEKDAYS.map((w, idx) => (
+          <div key={w} className="calendar-head">{t(lang, `weekday.${idx}` as MessageKey)}</div>
+        ))}
+        {days.map((d) => {
+          const mapped = 'day' in d ? d : undefined;
+          const classes = ['calendar-cell'];
+          if (mapped) classes.push(`type-${mapped.dayType.toLowerCase()}`);
+          if (d.date === today) classes.push('today');
+          return (
+            <button
+              key={d.date}
+              className={classes.join(' ')}
+              disabled={!mapped || mapped.frozen}
+              onClick={() => mapped && onOpenDay(mapped.day)}
+            >
+              <span className="small">{d.date.slice(5)}</span>
+              {mapped && (
+                <strong>
+                  D{mapped.day} {t(lang, `dayType.${mapped.dayType}`)}
+                </strong>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="subsurface stack-8">
+        <h3 className="subtitle">{t(lang, 'ical.title')}</h3>
+        <p className="small">{t(lang, 'ical.help', { date: cycleStart })}</p>
+        <div className="row wrap">
+          <label>{t(lang, 'ical.cycles')}</label>
+          <input
+            className="constraint-input"
+            type="number"
+            min={1}
+            max={52}
+            value={icsCycles}
+            onChange={(e) => setIcsCycles(Math.min(52, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+          />
+          <label className="row">
+            <input type="checkbox" checked={icsMeals} onChange={(e) => setIcsMeals(e.target.checked)} />
+            <span>{t(lang, 'ical.includeMeals')}</span>
+          </label>
+          <button onClick={() => onExportIcs(icsCycles, icsMeals)}>{t(lang, 'ical.export')}</button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react';
+import type { Basis, Category, FoodItem, Language } from '../types';
+import { formatNumber, t } from '../i18n';
+import {
+  IMPORT_FIELDS,
+  buildImportRows,
+  importFieldLabel,
+  guessMapping,
+  parseCsv,
+  parseFdcJson,
+  rowsToFoods,
+  type ColumnMapping,
+  type ImportTable
+} from '../utils/foodImport';
+import { CATEGORY_ORDER } from '../utils/shopping';
+
+interface FoodImportPanelProps {
+  lang: Language;
+  existingFoods: FoodItem[];
+  onImport: (foods: FoodItem[]) => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+export function FoodImportPanel({ lang, existingFoods, onImport }: FoodImportPanelProps) {
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [fileError, setFileError] = useState('');
+  const [defaults, setDefaults] = useState({ category: 'other' as Category, basis: 'raw' as Basis, servingGrams: 100 });
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const rows = useMemo(
+    () => (table && mapping ? buildImportRows(table, mapping, defaults, existingFoods, lang) : []),
+    [table, mapping, defaults, existingFoods, lang]
+  );
+  const importable = rows.filter((r) => !r.errors.length && !(skipDuplicates && r.duplicateOf));
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setFileError('');
+    try {
+      const text = await file.text();
+      const parsed = file.name.toLowerCase().endsWith('.json') ? parseFdcJson(text) : parseCsv(text);
+      if (!parsed.headers.length || !parsed.rows.length) throw new Error(t(lang, 'import.noRows'));
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers));
+    } catch (err) {
+      setTable(null);
+      setMapping(null);
+      setFileError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function handleImport() {
+    onImport(rowsToFoods(importable));
+    setTable(null);
+    setMapping(null);
+  }
+
+  return (
+    <div className="subsurface stack-8">
+      <h3 className="subtitle">{t(lang, 'import.title')}</h3>
+      <input type="file" accept=".csv,.json,text/csv,application/json" onChange={(e) => handleFile(e.target.files?.[0])} />
+      {fileError && <div className="error-box">{fileError}</div>}
+
+      {table && mapping && (
+        <>
+          <div className="grid three">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.key} className="field">
+                <label>
+                  {importFieldLabel(field, lang)}
+                  {field.required ? ' *' : ''}
+                </label>
+                <select value={mapping[field.key]} onChange={(e) => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}>
+                  <option value={-1}>—</option>
+                  {table.headers.map((h, i) => (
+                    <option key={i} value={i}>{h}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="row wrap">
+            <label>{t(lang, 'import.defaultCategory')}</label>
+            <select value={defaults.category} onChange={(e) => setDefaults({ ...defaults, category: e.target.value as Category })}>
+              {CATEGORY_ORDER.map((c) => (
+                <option key={c} value={c}>{t(lang, `cat.${c}`)}</option>
+              ))}
+            </select>
+            <label>{t(lang, 'import.defaultBasis')}</label>
+            <select value={defaults.basis} onChange={(e) => setDefaults({ ...defaults, basis: e.target.value as Basis })}>
+              <option value="raw">{t(lang, 'basis.raw')}</option>
+              <option value="cooked">{t(lang, 'basis.cooked')}</option>
+              <option value="fresh">{t(lang, 'basis.fresh')}</option>
+            </select>
+            <label>{t(lang, 'import.servingGrams')}</label>
+            <input
+              className="constraint-input"
+              type="number"
+              min={1}
+              value={defaults.servingGrams}
+              onChange={(e) => setDefaults({ ...defaults, servingGrams: Number(e.target.value) })}
+            />
+            <label className="row">
+              <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+              <span>{t(lang, 'import.skipDuplicates')}</span>
+            </label>
+          </div>
+
+          <div className="table-wrap">
+            <table>
+              <thead>
+                <tr>
+                  <th>{t(lang, 'import.lineHeader')}</th>
+                  <th>{t(lang, 'name')}</th>
+                  <th>{t(lang, 'category')}</th>
+                  <th>{t(lang, 'basis')}</th>
+                  <th>kcal</th>
+                  <th>P</th>
+                  <th>C</th>
+                  <th>F</th>
+                  <th>{t(lang, 'status')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, PREVIEW_ROWS).map((r) => (
+                  <tr key={r.line}>
+                    <td>{r.line}</td>
+                    <td>{r.name_en}</td>
+                    <td>{t(lang, `cat.${r.category}`)}</td>
+                    <td>{t(lang, `basis.${r.variant.basis}`)}</td>
+                    <td>{formatNumber(lang, r.variant.kcal ?? 0, 2)}</td>
+                    <td>{formatNumber(lang, r.variant.p, 2)}</td>
+                    <td>{formatNumber(lang, r.variant.c, 2)}</td>
+                    <td>{formatNumber(lang, r.variant.f, 2)}</td>
+                    <td className={r.errors.length || r.duplicateOf ? 'warn-text' : undefined}>
+                      {r.errors.length ? r.errors.join(' ') : r.duplicateOf ? t(lang, 'import.duplicateOf', { name: r.duplicateOf }) : t(lang, 'ok')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {rows.length > PREVIEW_ROWS && <div className="small">{t(lang, 'import.showing', { shown: PREVIEW_ROWS, total: rows.length })}</div>}
+
+          <div className="row wrap">
+            <button onClick={handleImport} disabled={!importable.length}>
+              {t(lang, 'import.importCount', { count: importable.length, total: rows.length })}
+            </button>
+            <button
+              onClick={() => {
+                setTable(null);
+                setMapping(null);
+              }}
+            >
+              {t(lang, 'cancel')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,15 @@
-import type { Basis, Category, DayFoodEntry, DayTarget, FoodItem, Language } from '../types';
+import { useMemo, useState } from 'react';
+import type { Basis, Category, DayFoodEntry, DayTarget, DayTemplate, DayTotals, DayType, FoodItem, Language, Meal, MealKind, Recipe } from '../types';
+import { formatNumber, localName, t } from '../i18n';
+import { MEAL_PRESETS } from '../utils/meals';
+import { NUTRIENTS, formatNutrientTotal } from '../utils/nutrients';
+import { CATEGORY_ORDER } from '../utils/shopping';
+import { FoodImportPanel } from './FoodImportPanel';
+import { RecipesPanel } from './RecipesPanel';
+import { TemplatesPanel } from './TemplatesPanel';
+import { rawEquivalent, yieldRatio } from '../utils/yields';
+import { entryUnit, parsePortions, portionsText, unitAmount, unitOptions } from '../utils/units';
+import type { MacroTarget, SolveResult } from '../utils/solver';
 
 interface FoodsTabProps {
   lang: Language;
@@ -6,7 +17,13 @@ interface FoodsTabProps {
   dayTargets: DayTarget[];
   currentDayTarget?: DayTarget;
   currentEntries: DayFoodEntry[];
-  currentTotals: { p: number; c: number; f: number; kcal: number };
+  currentTotals: DayTotals;
+  nutrientWarnings: string[];
+  meals: Meal[];
+  currentMeal: Meal;
+  mealTarget?: MacroTarget;
+  mealTotals: { p: number; c: number; f: number; kcal: number };
+  solveReport?: SolveResult;
   validationErrors: string[];
   search: string;
   category: Category | 'all';
@@ -22,8 +39,18 @@ interface FoodsTabProps {
     c: number;
     f: number;
     kcal: number;
+    /** Left undefined when not typed in, so the food counts as having no data for it. */
+    fiber?: number;
+    sugar?: number;
+    satFat?: number;
+    sodium?: number;
+    yieldRatio: number;
   };
   onSetSelectedDay: (day: number) => void;
+  onSelectMeal: (mealId: string) => void;
+  onAddMeal: (kind: MealKind) => void;
+  onRemoveMeal: (mealId: string) => void;
+  onPatchMeal: (mealId: string, patch: Partial<Pick<Meal, 'name' | 'split'>>) => void;
   onSearch: (q: string) => void;
   onCategory: (cat: Category | 'all') => void;
   onToggleFood: (foodId: string) => void;
@@ -32,6 +59,25 @@ interface FoodsTabProps {
   onExportDayPoster: () => void;
   onSetCustomForm: (patch: Partial<FoodsTabProps['customForm']>) => void;
   onAddCustomFood: () => void;
+  onImportFoods: (foods: FoodItem[]) => void;
+  customFoods: FoodItem[];
+  onPatchCustomFood: (id: string, patch: Partial<FoodItem>) => void;
+  /** Custom foods the active profile keeps out of the food list. */
+  hiddenFoodIds: string[];
+  onSetFoodHidden: (foodId: string, hidden: boolean) => void;
+  recipes: Recipe[];
+  baseFoods: FoodItem[];
+  onSaveRecipe: (recipe: Recipe) => void;
+  onDeleteRecipe: (id: string) => void;
+  templates: DayTemplate[];
+  onSaveTemplate: (name: string) => void;
+  onApplyTemplate: (id: string, scope: 'day' | DayType, rescale: boolean) => void;
+  onPatchTemplate: (id: string, patch: Partial<DayTemplate>) => void;
+  onDeleteTemplate: (id: string) => void;
+}
+
+function optionalGrams(value: string): number | undefined {
+  return value === '' ? undefined : Math.max(0, Number(value));
 }
 
 export function FoodsTab(props: FoodsTabProps) {
@@ -42,6 +88,12 @@ export function FoodsTab(props: FoodsTabProps) {
     currentDayTarget,
     currentEntries,
     currentTotals,
+    nutrientWarnings,
+    meals,
+    currentMeal,
+    mealTarget,
+    mealTotals,
+    solveReport,
     validationErrors,
     search,
     category,
@@ -50,6 +102,10 @@ export function FoodsTab(props: FoodsTabProps) {
     foodsMap,
     customForm,
     onSetSelectedDay,
+    onSelectMeal,
+    onAddMeal,
+    onRemoveMeal,
+    onPatchMeal,
     onSearch,
     onCategory,
     onToggleFood,
@@ -57,51 +113,139 @@ export function FoodsTab(props: FoodsTabProps) {
     onAutoGenerate,
     onExportDayPoster,
     onSetCustomForm,
-    onAddCustomFood
+    onAddCustomFood,
+    onImportFoods,
+    customFoods,
+    onPatchCustomFood,
+    hiddenFoodIds,
+    onSetFoodHidden,
+    recipes,
+    baseFoods,
+    onSaveRecipe,
+    onDeleteRecipe,
+    templates,
+    onSaveTemplate,
+    onApplyTemplate,
+    onPatchTemplate,
+    onDeleteTemplate
   } = props;
+  const [newMealKind, setNewMealKind] = useState<MealKind>('breakfast');
+  const existingFoods = useMemo(() => [...foodsMap.values()], [foodsMap]);
+  const num = (n: number, digits = 2) => formatNumber(lang, n, digits);
 
   return (
     <section className="surface stack-16 with-bottom-pad">
-      <h2 className="title">Foods</h2>
+      <h2 className="title">{t(lang, 'tab.foods')}</h2>
 
       <div className="row wrap">
-        <label>Day</label>
+        <label>{t(lang, 'day')}</label>
         <select value={selectedDay} onChange={(e) => onSetSelectedDay(Number(e.target.value))}>
           {dayTargets.map((d) => (
             <option key={d.day} value={d.day}>
-              D{d.day} ({d.dayType})
+              D{d.day} ({t(lang, `dayType.${d.dayType}`)})
             </option>
           ))}
         </select>
-        <button onClick={onAutoGenerate} disabled={!currentEntries.length || validationErrors.length > 0}>
-          Auto-generate grams
+        <button onClick={onAutoGenerate} disabled={!meals.some((m) => m.entries.length) || validationErrors.length > 0}>
+          {t(lang, 'autoGenerate')}
         </button>
-        <button onClick={onExportDayPoster}>Export Day Poster</button>
+        <button onClick={onExportDayPoster}>{t(lang, 'dayPoster')}</button>
       </div>
 
       <div className="foods-layout">
         <aside className="stack-16">
           <div className="subsurface stack-8">
-            <h3 className="subtitle">Targets</h3>
+            <h3 className="subtitle">{t(lang, 'foods.targets')}</h3>
             {currentDayTarget && (
               <>
-                <div className="small">Type: {currentDayTarget.dayType}</div>
-                <div className="small">P/C/F target: {currentDayTarget.proteinTarget}/{currentDayTarget.carbTarget}/{currentDayTarget.fatTarget} g</div>
-                <div className="small">Actual: {currentTotals.p}/{currentTotals.c}/{currentTotals.f} g</div>
-                <div className="small">kcal: {currentTotals.kcal}</div>
+                <div className="small">
+                  {t(lang, 'type')}: {t(lang, `dayType.${currentDayTarget.dayType}`)}
+                </div>
+                <div className="small">
+                  {t(lang, 'log.target')}: {num(currentDayTarget.proteinTarget)}/{num(currentDayTarget.carbTarget)}/{num(currentDayTarget.fatTarget)} g
+                </div>
+                <div className="small">
+                  {t(lang, 'foods.actual')}: {num(currentTotals.p)}/{num(currentTotals.c)}/{num(currentTotals.f)} g
+                </div>
+                <div className="small">kcal: {num(currentTotals.kcal)}</div>
+                <div className="small">
+                  {NUTRIENTS.map((n) => `${t(lang, n.label)} ${formatNutrientTotal(currentTotals, n.key, lang)}`).join(' · ')}
+                </div>
+                {nutrientWarnings.map((w) => (
+                  <div key={w} className="small warn-text">{w}</div>
+                ))}
+                {meals.length > 1 && mealTarget && (
+                  <>
+                    <div className="small">
+                      {t(lang, 'foods.mealTarget', { meal: currentMeal.name })}: {num(mealTarget.p)}/{num(mealTarget.c)}/{num(mealTarget.f)} g
+                    </div>
+                    <div className="small">
+                      {t(lang, 'foods.mealActual', { meal: currentMeal.name })}: {num(mealTotals.p)}/{num(mealTotals.c)}/{num(mealTotals.f)} g
+                    </div>
+                  </>
+                )}
+                {solveReport && !solveReport.exact && (
+                  <div className="small warn-text">
+                    {t(lang, 'foods.bestAchievable')} {num(solveReport.residual.p)}/{num(solveReport.residual.c)}/{num(solveReport.residual.f)} g
+                  </div>
+                )}
               </>
             )}
           </div>
 
           <div className="subsurface stack-8">
-            <h3 className="subtitle">Selected Foods</h3>
+            <h3 className="subtitle">{t(lang, 'foods.meals')}</h3>
+            <div className="category-segment" role="tablist" aria-label={t(lang, 'foods.meals')}>
+              {meals.map((m) => (
+                <button key={m.id} className={m.id === currentMeal.id ? 'seg-btn active' : 'seg-btn'} onClick={() => onSelectMeal(m.id)}>
+                  {m.name}
+                </button>
+              ))}
+            </div>
+            <div className="row wrap">
+              <input value={currentMeal.name} onChange={(e) => onPatchMeal(currentMeal.id, { name: e.target.value })} aria-label={t(lang, 'foods.mealName')} />
+              <button onClick={() => onRemoveMeal(currentMeal.id)} disabled={meals.length <= 1}>{t(lang, 'foods.removeMeal')}</button>
+            </div>
+            <div className="meal-split">
+              {(['p', 'c', 'f'] as const).map((k) => (
+                <label key={k} className="row">
+                  <span>{t(lang, 'foods.splitWeight', { macro: k.toUpperCase() })}</span>
+                  <input
+                    className="constraint-input"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={currentMeal.split[k]}
+                    onChange={(e) => onPatchMeal(currentMeal.id, { split: { ...currentMeal.split, [k]: Math.max(0, Number(e.target.value)) } })}
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="row wrap">
+              <select value={newMealKind} onChange={(e) => setNewMealKind(e.target.value as MealKind)}>
+                {(Object.keys(MEAL_PRESETS) as MealKind[])
+                  .filter((k) => k !== 'allDay')
+                  .map((k) => (
+                    <option key={k} value={k}>{t(lang, `meal.${k}`)}</option>
+                  ))}
+              </select>
+              <button onClick={() => onAddMeal(newMealKind)}>{t(lang, 'foods.addMeal')}</button>
+            </div>
+          </div>
+
+          <div className="subsurface stack-8">
+            <h3 className="subtitle">{t(lang, 'foods.selected')}{meals.length > 1 ? ` — ${currentMeal.name}` : ''}</h3>
             <div className="table-wrap">
               <table>
                 <thead>
                   <tr>
-                    <th>Food</th>
-                    <th>Basis</th>
-                    <th>g</th>
+                    <th>{t(lang, 'food')}</th>
+                    <th>{t(lang, 'basis')}</th>
+                    <th>{t(lang, 'foods.amount')}</th>
+                    <th>{t(lang, 'foods.min')}</th>
+                    <th>{t(lang, 'foods.max')}</th>
+                    <th>{t(lang, 'foods.step')}</th>
+                    <th>{t(lang, 'foods.lock')}</th>
                     <th>P</th>
                     <th>C</th>
                     <th>F</th>
@@ -112,22 +256,50 @@ export function FoodsTab(props: FoodsTabProps) {
                     const food = foodsMap.get(e.foodId);
                     const variant = food?.variants.find((v) => v.basis === e.basis) ?? food?.variants[0];
                     const ratio = e.grams / 100;
+                    const unit = entryUnit(food, e, lang);
                     return (
                       <tr key={e.foodId}>
-                        <td>{food ? (lang === 'zh' ? food.name_zh : food.name_en) : e.foodId}</td>
+                        <td>{food ? localName(lang, food) : e.foodId}</td>
                         <td>
                           <select value={e.basis} onChange={(ev) => onPatchEntry(e.foodId, { basis: ev.target.value as Basis })}>
                             {(food?.variants ?? []).map((v) => (
-                              <option key={v.basis} value={v.basis}>{v.basis}</option>
+                              <option key={v.basis} value={v.basis}>{t(lang, `basis.${v.basis}`)}</option>
                             ))}
                           </select>
                         </td>
                         <td>
-                          <input type="number" min={0} step={5} value={e.grams} onChange={(ev) => onPatchEntry(e.foodId, { grams: Number(ev.target.value) })} />
+                          <div className="row">
+                            <input
+                              type="number"
+                              min={0}
+                              step={unit.id === 'g' ? e.stepGrams || 5 : unit.portion ? 1 : 0.1}
+                              value={unitAmount(food, e)}
+                              onChange={(ev) => onPatchEntry(e.foodId, { grams: Number(ev.target.value) * unit.grams })}
+                            />
+                            <select value={unit.id} onChange={(ev) => onPatchEntry(e.foodId, { unit: ev.target.value })} aria-label={t(lang, 'foods.unit')}>
+                              {unitOptions(food, e.basis, lang).map((u) => (
+                                <option key={u.id} value={u.id}>{u.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          {unit.id !== 'g' && <div className="food-sub">= {num(e.grams)} g</div>}
+                          {food && e.basis === 'cooked' && <div className="food-sub">{t(lang, 'foods.rawEquivalent', { grams: rawEquivalent(food, e.grams, e.basis) })}</div>}
+                        </td>
+                        <td>
+                          <input className="constraint-input" type="number" min={0} value={e.minGrams ?? ''} disabled={e.locked} onChange={(ev) => onPatchEntry(e.foodId, { minGrams: optionalGrams(ev.target.value) })} />
+                        </td>
+                        <td>
+                          <input className="constraint-input" type="number" min={0} value={e.maxGrams ?? ''} disabled={e.locked} onChange={(ev) => onPatchEntry(e.foodId, { maxGrams: optionalGrams(ev.target.value) })} />
                         </td>
-                        <td>{((variant?.p ?? 0) * ratio).toFixed(1)}</td>
-                        <td>{((variant?.c ?? 0) * ratio).toFixed(1)}</td>
-                        <td>{((variant?.f ?? 0) * ratio).toFixed(1)}</td>
+                        <td>
+                          <input className="constraint-input" type="number" min={0} value={e.stepGrams ?? ''} disabled={e.locked} onChange={(ev) => onPatchEntry(e.foodId, { stepGrams: optionalGrams(ev.target.value) })} />
+                        </td>
+                        <td>
+                          <input type="checkbox" checked={!!e.locked} onChange={(ev) => onPatchEntry(e.foodId, { locked: ev.target.checked })} aria-label={t(lang, 'foods.lockAmount')} />
+                        </td>
+                        <td>{num((variant?.p ?? 0) * ratio, 1)}</td>
+                        <td>{num((variant?.c ?? 0) * ratio, 1)}</td>
+                        <td>{num((variant?.f ?? 0) * ratio, 1)}</td>
                       </tr>
                     );
                   })}
@@ -135,12 +307,24 @@ export function FoodsTab(props: FoodsTabProps) {
               </table>
             </div>
           </div>
+
+          <TemplatesPanel
+            lang={lang}
+            templates={templates}
+            foodsMap={foodsMap}
+            selectedDay={selectedDay}
+            currentDayType={currentDayTarget?.dayType}
+            onSave={onSaveTemplate}
+            onApply={onApplyTemplate}
+            onPatch={onPatchTemplate}
+            onDelete={onDeleteTemplate}
+          />
         </aside>
 
         <main className="stack-16">
           <div className="subsurface stack-8">
-            <input className="search" value={search} onChange={(e) => onSearch(e.target.value)} placeholder="Search foods" />
-            <div className="category-segment" role="tablist" aria-label="Food categories">
+            <input className="search" value={search} onChange={(e) => onSearch(e.target.value)} placeholder={t(lang, 'search')} />
+            <div className="category-segment" role="tablist" aria-label={t(lang, 'categories')}>
               {categories.map((c) => (
                 <button
                   key={c.key}
@@ -157,9 +341,9 @@ export function FoodsTab(props: FoodsTabProps) {
                 const primary = f.variants[0];
                 return (
                   <button key={f.id} className={selected ? 'food-card active' : 'food-card'} onClick={() => onToggleFood(f.id)}>
-                    <div className="food-name">{lang === 'zh' ? f.name_zh : f.name_en}</div>
-                    <div className="food-sub">{f.category}</div>
-                    <div className="food-sub">{Math.round(primary.kcal ?? 0)} kcal / 100g</div>
+                    <div className="food-name">{localName(lang, f)}</div>
+                    <div className="food-sub">{t(lang, `cat.${f.category}`)}</div>
+                    <div className="food-sub">{num(primary.kcal ?? 0, 0)} kcal / 100 g</div>
                   </button>
                 );
               })}
@@ -167,31 +351,103 @@ export function FoodsTab(props: FoodsTabProps) {
           </div>
 
           <div className="subsurface stack-8">
-            <h3 className="subtitle">Add Custom Food</h3>
+            <h3 className="subtitle">{t(lang, 'addCustomFood')}</h3>
             <div className="grid three">
-              <input placeholder="Name (EN)" value={customForm.name_en} onChange={(e) => onSetCustomForm({ name_en: e.target.value })} />
-              <input placeholder="名称 (中文)" value={customForm.name_zh} onChange={(e) => onSetCustomForm({ name_zh: e.target.value })} />
+              <input placeholder={t(lang, 'import.nameEn')} value={customForm.name_en} onChange={(e) => onSetCustomForm({ name_en: e.target.value })} />
+              <input placeholder={t(lang, 'import.nameZh')} value={customForm.name_zh} onChange={(e) => onSetCustomForm({ name_zh: e.target.value })} />
               <select value={customForm.category} onChange={(e) => onSetCustomForm({ category: e.target.value as Category })}>
-                <option value="protein">protein</option>
-                <option value="carb">carb</option>
-                <option value="fat">fat</option>
-                <option value="veg">veg</option>
-                <option value="fruit">fruit</option>
-                <option value="dairy">dairy</option>
-                <option value="other">other</option>
+                {CATEGORY_ORDER.map((c) => (
+                  <option key={c} value={c}>{t(lang, `cat.${c}`)}</option>
+                ))}
               </select>
               <select value={customForm.basis} onChange={(e) => onSetCustomForm({ basis: e.target.value as Basis })}>
-                <option value="raw">raw</option>
-                <option value="cooked">cooked</option>
-                <option value="fresh">fresh</option>
+                <option value="raw">{t(lang, 'basis.raw')}</option>
+                <option value="cooked">{t(lang, 'basis.cooked')}</option>
+                <option value="fresh">{t(lang, 'basis.fresh')}</option>
               </select>
               <input type="number" placeholder="P" value={customForm.p} onChange={(e) => onSetCustomForm({ p: Number(e.target.value) })} />
               <input type="number" placeholder="C" value={customForm.c} onChange={(e) => onSetCustomForm({ c: Number(e.target.value) })} />
               <input type="number" placeholder="F" value={customForm.f} onChange={(e) => onSetCustomForm({ f: Number(e.target.value) })} />
               <input type="number" placeholder="kcal" value={customForm.kcal} onChange={(e) => onSetCustomForm({ kcal: Number(e.target.value) })} />
+              <input type="number" placeholder={`${t(lang, 'nutrient.fiber')} g`} value={customForm.fiber ?? ''} onChange={(e) => onSetCustomForm({ fiber: e.target.value === '' ? undefined : Number(e.target.value) })} />
+              <input type="number" placeholder={`${t(lang, 'nutrient.sugar')} g`} value={customForm.sugar ?? ''} onChange={(e) => onSetCustomForm({ sugar: e.target.value === '' ? undefined : Number(e.target.value) })} />
+              <input type="number" placeholder={`${t(lang, 'nutrient.satFat')} g`} value={customForm.satFat ?? ''} onChange={(e) => onSetCustomForm({ satFat: e.target.value === '' ? undefined : Number(e.target.value) })} />
+              <input type="number" placeholder={`${t(lang, 'nutrient.sodium')} mg`} value={customForm.sodium ?? ''} onChange={(e) => onSetCustomForm({ sodium: e.target.value === '' ? undefined : Number(e.target.value) })} />
+              <input
+                type="number"
+                min={0}
+                step={0.05}
+                placeholder={t(lang, 'foods.yieldPlaceholder')}
+                value={customForm.yieldRatio || ''}
+                onChange={(e) => onSetCustomForm({ yieldRatio: Number(e.target.value) })}
+              />
             </div>
-            <button onClick={onAddCustomFood}>Save Custom Food</button>
+            <button onClick={onAddCustomFood}>{t(lang, 'foods.saveCustom')}</button>
+            {customFoods.length > 0 && (
+              <div className="table-wrap">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>{t(lang, 'foods.customFood')}</th>
+                      <th>{t(lang, 'foods.bases')}</th>
+                      <th>{t(lang, 'foods.yield')}</th>
+                      <th>{t(lang, 'foods.portions')}</th>
+                      <th>{t(lang, 'foods.wholePortions')}</th>
+                      <th>{t(lang, 'foods.shownInProfile')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {customFoods.map((f) => (
+                      <tr key={f.id}>
+                        <td>{localName(lang, f)}</td>
+                        <td>{f.variants.map((v) => t(lang, `basis.${v.basis}`)).join(', ')}</td>
+                        <td>
+                          <input
+                            className="constraint-input"
+                            type="number"
+                            min={0}
+                            step={0.05}
+                            value={f.yieldRatio ?? ''}
+                            placeholder={num(yieldRatio(f))}
+                            onChange={(e) => onPatchCustomFood(f.id, { yieldRatio: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            key={portionsText(f.portions)}
+                            placeholder="slice=32, cup=240"
+                            defaultValue={portionsText(f.portions)}
+                            onBlur={(e) => onPatchCustomFood(f.id, { portions: parsePortions(e.target.value, f.portions) })}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="checkbox"
+                            checked={!!f.portionBased}
+                            disabled={!f.portions?.length}
+                            onChange={(e) => onPatchCustomFood(f.id, { portionBased: e.target.checked })}
+                            aria-label={t(lang, 'foods.roundToPortions')}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="checkbox"
+                            checked={!hiddenFoodIds.includes(f.id)}
+                            onChange={(e) => onSetFoodHidden(f.id, !e.target.checked)}
+                            aria-label={t(lang, 'foods.showInProfile')}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
+
+          <RecipesPanel lang={lang} recipes={recipes} baseFoods={baseFoods} foodsMap={foodsMap} onSave={onSaveRecipe} onDelete={onDeleteRecipe} />
+
+          <FoodImportPanel lang={lang} existingFoods={existingFoods} onImport={onImportFoods} />
         </main>
       </div>
     </section>
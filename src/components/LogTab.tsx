@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react';
+import type { Basis, DayFoodEntry, DayTarget, FoodItem, IntakeDay, IntakeEntry, Language } from '../types';
+import { formatNumber, localName, t } from '../i18n';
+import { addDays } from '../utils/calendar';
+import type { Adherence } from '../utils/intake';
+
+interface LogTabProps {
+  lang: Language;
+  date: string;
+  cycleLabel?: string;
+  target?: DayTarget;
+  plannedEntries: DayFoodEntry[];
+  logDay: IntakeDay;
+  adherence: Adherence;
+  history: Array<{ date: string; adherence: Adherence }>;
+  allFoods: FoodItem[];
+  foodsMap: Map<string, FoodItem>;
+  onSetDate: (date: string) => void;
+  onConfirmPlanned: (entries: DayFoodEntry[]) => void;
+  onPatchEntry: (index: number, patch: Partial<IntakeEntry>) => void;
+  onRemoveEntry: (index: number) => void;
+  onAddOffPlan: (foodId: string) => void;
+}
+
+export function LogTab({
+  lang,
+  date,
+  cycleLabel,
+  target,
+  plannedEntries,
+  logDay,
+  adherence,
+  history,
+  allFoods,
+  foodsMap,
+  onSetDate,
+  onConfirmPlanned,
+  onPatchEntry,
+  onRemoveEntry,
+  onAddOffPlan
+}: LogTabProps) {
+  const [query, setQuery] = useState('');
+  const [offPlanId, setOffPlanId] = useState('');
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return allFoods.filter((f) => f.name_en.toLowerCase().includes(q) || f.name_zh.toLowerCase().includes(q)).slice(0, 50);
+  }, [allFoods, query]);
+  const foodName = (id: string) => {
+    const food = foodsMap.get(id);
+    return food ? localName(lang, food) : id;
+  };
+  const num = (n: number) => formatNumber(lang, n, 2);
+  const isLogged = (e: DayFoodEntry) => logDay.entries.some((l) => l.fromPlan && l.foodId === e.foodId && l.basis === e.basis);
+  const shownTarget = logDay.target ?? target;
+
+  return (
+    <section className="surface stack-16 with-bottom-pad">
+      <h2 className="title">{t(lang, 'log.title')}</h2>
+
+      <div className="row wrap">
+        <button onClick={() => onSetDate(addDays(date, -1))}>‹</button>
+        <input type="date" value={date} onChange={(e) => e.target.value && onSetDate(e.target.value)} />
+        <button onClick={() => onSetDate(addDays(date, 1))}>›</button>
+        {cycleLabel && <span className="small">{cycleLabel}</span>}
+      </div>
+
+      <div className="subsurface stack-8">
+        <h3 className="subtitle">{t(lang, 'log.adherence')}</h3>
+        {shownTarget ? (
+          <>
+            <div className="small">
+              {t(lang, 'log.target')}: {num(shownTarget.proteinTarget)}/{num(shownTarget.carbTarget)}/{num(shownTarget.fatTarget)} g
+            </div>
+            <div className="small">
+              {t(lang, 'log.eaten')}: {num(adherence.totals.p)}/{num(adherence.totals.c)}/{num(adherence.totals.f)} g · {num(adherence.totals.kcal)} kcal
+            </div>
+            <div className="small">
+              Δ {num(adherence.dp)}/{num(adherence.dc)}/{num(adherence.df)} g · {num(adherence.pctP)}% / {num(adherence.pctC)}% / {num(adherence.pctF)}%
+            </div>
+          </>
+        ) : (
+          <div className="small">{t(lang, 'log.noTarget')}</div>
+        )}
+      </div>
+
+      <div className="subsurface stack-8">
+        <h3 className="subtitle">{t(lang, 'log.planned')}</h3>
+        {plannedEntries.length === 0 && <div className="small">{t(lang, 'log.nothingPlanned')}</div>}
+        {plannedEntries.map((e, i) => (
+          <div key={`${e.foodId}-${i}`} className="row wrap">
+            <span>
+              {foodName(e.foodId)} ({t(lang, `basis.${e.basis}`)}) {num(e.grams)} g
+            </span>
+            <button onClick={() => onConfirmPlanned([e])} disabled={isLogged(e)}>
+              {t(lang, 'confirm')}
+            </button>
+          </div>
+        ))}
+        {plannedEntries.length > 0 && (
+          <button onClick={() => onConfirmPlanned(plannedEntries.filter((e) => !isLogged(e)))}>{t(lang, 'log.confirmAll')}</button>
+        )}
+      </div>
+
+      <div className="subsurface stack-8">
+        <h3 className="subtitle">{t(lang, 'log.eaten')}</h3>
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>{t(lang, 'food')}</th>
+                <th>{t(lang, 'basis')}</th>
+                <th>g</th>
+                <th>{t(lang, 'log.source')}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {logDay.entries.map((e, i) => (
+                <tr key={`${e.foodId}-${i}`}>
+                  <td>{foodName(e.foodId)}</td>
+                  <td>
+                    <select value={e.basis} onChange={(ev) => onPatchEntry(i, { basis: ev.target.value as Basis })}>
+                      {(foodsMap.get(e.foodId)?.variants ?? []).map((v) => (
+                        <option key={v.basis} value={v.basis}>{t(lang, `basis.${v.basis}`)}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input type="number" min={0} step={5} value={e.grams} onChange={(ev) => onPatchEntry(i, { grams: Math.max(0, Number(ev.target.value)) })} />
+                  </td>
+                  <td>{e.fromPlan ? t(lang, 'log.fromPlan') : t(lang, 'log.offPlan')}</td>
+                  <td>
+                    <button onClick={() => onRemoveEntry(i)}>{t(lang, 'remove')}</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="row wrap">
+          <input className="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t(lang, 'log.searchOffPlan')} />
+          <select value={offPlanId} onChange={(e) => setOffPlanId(e.target.value)}>
+            <option value="">—</option>
+            {matches.map((f) => (
+              <option key={f.id} value={f.id}>{localName(lang, f)}</option>
+            ))}
+          </select>
+          <button
+            disabled={!offPlanId}
+            onClick={() => {
+              onAddOffPlan(offPlanId);
+              setOffPlanId('');
+            }}
+          >
+            {t(lang, 'log.addOffPlan')}
+          </button>
+        </div>
+      </div>
+
+      <div className="subsurface stack-8">
+        <h3 className="subtitle">{t(lang, 'log.history')}</h3>
+        {history.length === 0 && <div className="small">{t(lang, 'log.noHistory')}</div>}
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>{t(lang, 'date')}</th>
+                <th>kcal</th>
+                <th>P %</th>
+                <th>C %</th>
+                <th>F %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((h) => (
+                <tr key={h.date} className={h.date === date ? 'row-active' : undefined} onClick={() => onSetDate(h.date)}>
+                  <td>{h.date}</td>
+                  <td>{num(h.adherence.totals.kcal)}</td>
+                  <td>{num(h.adherence.pctP)}</td>
+                  <td>{num(h.adherence.pctC)}</td>
+                  <td>{num(h.adherence.pctF)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
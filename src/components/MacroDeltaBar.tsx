@@ -1,4 +1,8 @@
+import type { Language } from '../types';
+import { formatNumber, t } from '../i18n';
+
 interface MacroDeltaBarProps {
+  lang: Language;
   proteinRemaining: number;
   carbRemaining: number;
   fatRemaining: number;
@@ -11,11 +15,11 @@ function statusClass(v: number): 'ok' | 'warn' | 'over' {
   return 'warn';
 }
 
-export function MacroDeltaBar({ proteinRemaining, carbRemaining, fatRemaining }: MacroDeltaBarProps) {
+export function MacroDeltaBar({ lang, proteinRemaining, carbRemaining, fatRemaining }: MacroDeltaBarProps) {
   const items = [
-    { label: 'Protein', value: proteinRemaining },
-    { label: 'Carb', value: carbRemaining },
-    { label: 'Fat', value: fatRemaining }
+    { label: t(lang, 'protein'), value: proteinRemaining },
+    { label: t(lang, 'carb'), value: carbRemaining },
+    { label: t(lang, 'fat'), value: fatRemaining }
   ];
 
   return (
@@ -23,7 +27,7 @@ export function MacroDeltaBar({ proteinRemaining, carbRemaining, fatRemaining }:
       {items.map((it) => (
         <div key={it.label} className={`delta-item ${statusClass(it.value)}`}>
           <span>{it.label}</span>
-          <strong>{it.value >= 0 ? '+' : ''}{it.value.toFixed(1)}g</strong>
+          <strong>{it.value >= 0 ? '+' : ''}{formatNumber(lang, it.value)} g</strong>
         </div>
       ))}
     </div>
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import type { DayPlan, FoodItem, Language } from '../types';
+import { formatNumber, localName, t } from '../i18n';
+import { buildPlanImport, readPlanFile, type PlanImportResult } from '../utils/planImport';
+
+interface PlanImportPanelProps {
+  lang: Language;
+  dayPlans: Record<number, DayPlan>;
+  foodsMap: Map<string, FoodItem>;
+  cycleDays: number;
+  onApply: (plans: Record<number, DayPlan>) => void;
+}
+
+const PREVIEW_CHANGES = 100;
+
+export function PlanImportPanel({ lang, dayPlans, foodsMap, cycleDays, onApply }: PlanImportPanelProps) {
+  const [pending, setPending] = useState<PlanImportResult | null>(null);
+  const [fileError, setFileError] = useState('');
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setFileError('');
+    setPending(null);
+    try {
+      setPending(buildPlanImport(await readPlanFile(file, lang), dayPlans, foodsMap, cycleDays, lang));
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function handleApply() {
+    if (!pending) return;
+    onApply(pending.plans);
+    setPending(null);
+  }
+
+  const foodName = (id: string) => {
+    const food = foodsMap.get(id);
+    return food ? localName(lang, food) : id;
+  };
+  const days = pending ? Object.keys(pending.plans).length : 0;
+
+  return (
+    <section className="surface stack-16">
+      <h2 className="title">{t(lang, 'planImport.title')}</h2>
+      <p className="small">{t(lang, 'planImport.help')}</p>
+      <input type="file" accept=".xlsx,.xls,.csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+      {fileError && <div className="error-box">{fileError}</div>}
+
+      {pending && (
+        <div className="subsurface stack-8">
+          <div className="small">{t(lang, 'planImport.summary', { rows: pending.rowsRead, days })}</div>
+          {pending.unknownFoods.length > 0 && (
+            <div className="warn-text">{t(lang, 'planImport.unknownFoods', { foods: pending.unknownFoods.join(', ') })}</div>
+          )}
+          {pending.recipeRows > 0 && <div className="small">{t(lang, 'planImport.recipeRows', { count: pending.recipeRows })}</div>}
+          {pending.issues.map((issue) => (
+            <div key={issue} className="warn-text">{issue}</div>
+          ))}
+
+          {days > 0 && !pending.changes.length && <div className="small">{t(lang, 'planImport.noChanges')}</div>}
+          {pending.changes.length > 0 && (
+            <div className="table-wrap">
+              <table>
+                <thead>
+                  <tr>
+                    <th>{t(lang, 'day')}</th>
+                    <th>{t(lang, 'meal')}</th>
+                    <th>{t(lang, 'food')}</th>
+                    <th>{t(lang, 'basis')}</th>
+                    <th>{t(lang, 'planImport.before')}</th>
+                    <th>{t(lang, 'planImport.after')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pending.changes.slice(0, PREVIEW_CHANGES).map((c) => (
+                    <tr key={`${c.day}:${c.meal}:${c.foodId}:${c.basis}`}>
+                      <td>{c.day}</td>
+                      <td>{c.meal}</td>
+                      <td>{foodName(c.foodId)}</td>
+                      <td>{t(lang, `basis.${c.basis}`)}</td>
+                      <td>{c.before ? formatNumber(lang, c.before, 2) : '—'}</td>
+                      <td className={c.after ? undefined : 'warn-text'}>{c.after ? formatNumber(lang, c.after, 2) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {pending.changes.length > PREVIEW_CHANGES && (
+            <div className="small">{t(lang, 'import.showing', { shown: PREVIEW_CHANGES, total: pending.changes.length })}</div>
+          )}
+
+          <div className="row">
+            <button onClick={handleApply} disabled={!days}>{t(lang, 'planImport.apply')}</button>
+            <button onClick={() => setPending(null)}>{t(lang, 'cancel')}</button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,4 +1,6 @@
-import type { DayType, PlannerProfile } from '../types';
+import type { DayType, Language, PlannerProfile, PosterTheme, SessionIntensity } from '../types';
+import { formatNumber, t, type MessageKey } from '../i18n';
+import { WEEKDAYS } from '../utils/calendar';
 
 interface PlanRow {
   day: number;
@@ -14,44 +16,64 @@ interface DeviationRow {
   dp: number;
   dc: number;
   df: number;
+  warnings: string[];
 }
 
 interface PlanTabProps {
+  lang: Language;
   profile: PlannerProfile;
   cycle: { dayTargets: PlanRow[]; pDay: number; cTotal: number; fTotal: number };
   errors: string[];
   deviations: DeviationRow[];
   setCounts: (high: number, med: number, low: number) => void;
   setPlacement: (dayIndex: number, type: DayType) => void;
+  placementReasons: string[];
+  setTrainingSession: (weekday: number, intensity: SessionIntensity) => void;
+  onAutoPlace: () => void;
   setCarbShare: (type: DayType, value: number) => void;
   setFatShare: (type: DayType, value: number) => void;
   onExportCsv: () => void;
   onExportXlsx: () => void;
+  onExportPdf: () => void;
+  expandRecipes: boolean;
+  onExpandRecipes: (expand: boolean) => void;
+  posterTheme: PosterTheme;
+  onPosterTheme: (theme: PosterTheme) => void;
   onExportPoster: () => void;
 }
 
 const dayTypes: DayType[] = ['High', 'Medium', 'Low'];
+const intensities: SessionIntensity[] = ['rest', 'light', 'moderate', 'hard'];
 
 export function PlanTab({
+  lang,
   profile,
   cycle,
   errors,
   deviations,
   setCounts,
   setPlacement,
+  placementReasons,
+  setTrainingSession,
+  onAutoPlace,
   setCarbShare,
   setFatShare,
   onExportCsv,
   onExportXlsx,
+  onExportPdf,
+  expandRecipes,
+  onExpandRecipes,
+  posterTheme,
+  onPosterTheme,
   onExportPoster
 }: PlanTabProps) {
   return (
     <section className="surface stack-24">
-      <h2 className="title">Plan</h2>
+      <h2 className="title">{t(lang, 'tab.plan')}</h2>
 
       <div className="grid two">
         <div className="field">
-          <label>Day Counts (High / Medium / Low)</label>
+          <label>{t(lang, 'dayCounts')}</label>
           <div className="inline-3">
             <input type="number" min={0} max={profile.cycleDays} value={profile.nHigh} onChange={(e) => setCounts(Number(e.target.value), profile.nMed, profile.nLow)} />
             <input type="number" min={0} max={profile.cycleDays} value={profile.nMed} onChange={(e) => setCounts(profile.nHigh, Number(e.target.value), profile.nLow)} />
@@ -60,20 +82,20 @@ export function PlanTab({
         </div>
 
         <div className="summary-row">
-          <div className="mini-metric">P_day {cycle.pDay}g</div>
-          <div className="mini-metric">C_total {cycle.cTotal}g</div>
-          <div className="mini-metric">F_total {cycle.fTotal}g</div>
+          <div className="mini-metric">P_day {formatNumber(lang, cycle.pDay)} g</div>
+          <div className="mini-metric">C_total {formatNumber(lang, cycle.cTotal)} g</div>
+          <div className="mini-metric">F_total {formatNumber(lang, cycle.fTotal)} g</div>
         </div>
 
         <div className="field full">
-          <label>Macro Shares</label>
+          <label>{t(lang, 'shares')}</label>
           <div className="share-table">
             {dayTypes.map((d) => (
               <div key={d} className="share-line">
-                <strong>{d}</strong>
-                <span>Carb</span>
+                <strong>{t(lang, `dayType.${d}`)}</strong>
+                <span>{t(lang, 'carb')}</span>
                 <input type="number" min={0} max={1} step={0.01} value={profile.carbShares[d]} onChange={(e) => setCarbShare(d, Number(e.target.value))} />
-                <span>Fat</span>
+                <span>{t(lang, 'fat')}</span>
                 <input type="number" min={0} max={1} step={0.01} value={profile.fatShares[d]} onChange={(e) => setFatShare(d, Number(e.target.value))} />
               </div>
             ))}
@@ -81,19 +103,47 @@ export function PlanTab({
         </div>
 
         <div className="field full">
-          <label>Day Type Placement (counts fixed)</label>
+          <label>{t(lang, 'weeklyTraining')}</label>
+          <div className="placement-grid">
+            {WEEKDAYS.map((w, idx) => (
+              <div className="placement-item" key={w}>
+                <span>{t(lang, `weekday.${idx}` as MessageKey)}</span>
+                <select value={profile.trainingSchedule[idx]} onChange={(e) => setTrainingSession(idx, e.target.value as SessionIntensity)}>
+                  {intensities.map((i) => (
+                    <option key={i} value={i}>{t(lang, `intensity.${i}`)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="row">
+            <button onClick={onAutoPlace} disabled={profile.nHigh + profile.nMed + profile.nLow !== profile.cycleDays}>
+              {t(lang, 'autoPlace')}
+            </button>
+          </div>
+        </div>
+
+        <div className="field full">
+          <label>{t(lang, 'dayPlacement')}</label>
           <div className="placement-grid">
             {Array.from({ length: profile.cycleDays }).map((_, idx) => (
               <div className="placement-item" key={idx}>
                 <span>D{idx + 1}</span>
                 <select value={profile.dayPlacement[idx]} onChange={(e) => setPlacement(idx, e.target.value as DayType)}>
-                  <option>High</option>
-                  <option>Medium</option>
-                  <option>Low</option>
+                  {dayTypes.map((d) => (
+                    <option key={d} value={d}>{t(lang, `dayType.${d}`)}</option>
+                  ))}
                 </select>
               </div>
             ))}
           </div>
+          {placementReasons.length > 0 && (
+            <ul className="small reasons">
+              {placementReasons.map((r) => (
+                <li key={r}>{r}</li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
 
@@ -109,21 +159,21 @@ export function PlanTab({
         <table>
           <thead>
             <tr>
-              <th>Day</th>
-              <th>Type</th>
-              <th>P target</th>
-              <th>C target</th>
-              <th>F target</th>
+              <th>{t(lang, 'day')}</th>
+              <th>{t(lang, 'type')}</th>
+              <th>{t(lang, 'proteinTarget')}</th>
+              <th>{t(lang, 'carbTarget')}</th>
+              <th>{t(lang, 'fatTarget')}</th>
             </tr>
           </thead>
           <tbody>
             {cycle.dayTargets.map((d) => (
               <tr key={d.day}>
                 <td>{d.day}</td>
-                <td>{d.dayType}</td>
-                <td>{d.proteinTarget}</td>
-                <td>{d.carbTarget}</td>
-                <td>{d.fatTarget}</td>
+                <td>{t(lang, `dayType.${d.dayType}`)}</td>
+                <td>{formatNumber(lang, d.proteinTarget, 2)}</td>
+                <td>{formatNumber(lang, d.carbTarget, 2)}</td>
+                <td>{formatNumber(lang, d.fatTarget, 2)}</td>
               </tr>
             ))}
           </tbody>
@@ -134,21 +184,23 @@ export function PlanTab({
         <table>
           <thead>
             <tr>
-              <th>Day</th>
-              <th>Type</th>
+              <th>{t(lang, 'day')}</th>
+              <th>{t(lang, 'type')}</th>
               <th>ΔP</th>
               <th>ΔC</th>
               <th>ΔF</th>
+              <th>{t(lang, 'nutrients')}</th>
             </tr>
           </thead>
           <tbody>
             {deviations.map((d) => (
               <tr key={d.day}>
                 <td>{d.day}</td>
-                <td>{d.dayType}</td>
-                <td>{d.dp}</td>
-                <td>{d.dc}</td>
-                <td>{d.df}</td>
+                <td>{t(lang, `dayType.${d.dayType}`)}</td>
+                <td>{formatNumber(lang, d.dp, 2)}</td>
+                <td>{formatNumber(lang, d.dc, 2)}</td>
+                <td>{formatNumber(lang, d.df, 2)}</td>
+                <td className={d.warnings.length ? 'warn-text' : undefined}>{d.warnings.length ? d.warnings.join(' ') : t(lang, 'ok')}</td>
               </tr>
             ))}
           </tbody>
@@ -156,9 +208,21 @@ export function PlanTab({
       </div>
 
       <div className="row">
-        <button onClick={onExportCsv}>Export CSV</button>
-        <button onClick={onExportXlsx}>Export XLSX</button>
-        <button onClick={onExportPoster}>Export Cycle Poster</button>
+        <button onClick={onExportCsv}>{t(lang, 'exportCsv')}</button>
+        <button onClick={onExportXlsx}>{t(lang, 'exportXlsx')}</button>
+        <button onClick={onExportPdf}>{t(lang, 'pdf.export')}</button>
+        <label className="row">
+          <input type="checkbox" checked={expandRecipes} onChange={(e) => onExpandRecipes(e.target.checked)} />
+          <span>{t(lang, 'expandRecipes')}</span>
+        </label>
+        <label className="row">
+          <span>{t(lang, 'posterTheme')}</span>
+          <select value={posterTheme} onChange={(e) => onPosterTheme(e.target.value as PosterTheme)}>
+            <option value="light">{t(lang, 'posterTheme.light')}</option>
+            <option value="dark">{t(lang, 'posterTheme.dark')}</option>
+          </select>
+        </label>
+        <button onClick={onExportPoster}>{t(lang, 'cyclePoster')}</button>
       </div>
     </section>
   );
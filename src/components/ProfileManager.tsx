@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import type { Language } from '../types';
+import { t } from '../i18n';
+import type { ProfileRegistry } from '../utils/profiles';
+
+interface ProfileManagerProps {
+  lang: Language;
+  registry: ProfileRegistry;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function ProfileManager({ lang, registry, onSwitch, onCreate, onDuplicate, onRename, onDelete }: ProfileManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const active = registry.profiles.find((p) => p.id === registry.activeId) ?? registry.profiles[0];
+
+  return (
+    <section className="surface stack-16">
+      <h2 className="title">{t(lang, 'profiles.title')}</h2>
+      <p className="small">
+        {t(lang, 'profiles.help')}
+      </p>
+      <div className="grid three">
+        <div className="field">
+          <label>{t(lang, 'profiles.active')}</label>
+          <select
+            value={active.id}
+            onChange={(e) => {
+              setConfirmDelete(false);
+              onSwitch(e.target.value);
+            }}
+          >
+            {registry.profiles.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="field">
+          <label>{t(lang, 'name')}</label>
+          <input value={active.name} onChange={(e) => onRename(active.id, e.target.value)} />
+        </div>
+        <div className="field">
+          <label>{t(lang, 'profiles.new')}</label>
+          <div className="row">
+            <input value={newName} placeholder={t(lang, 'profiles.clientName')} onChange={(e) => setNewName(e.target.value)} />
+            <button
+              onClick={() => {
+                onCreate(newName);
+                setNewName('');
+              }}
+            >
+              {t(lang, 'create')}
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="row wrap">
+        <button onClick={onDuplicate}>{t(lang, 'profiles.duplicate')}</button>
+        {!confirmDelete ? (
+          <button disabled={registry.profiles.length < 2} onClick={() => setConfirmDelete(true)}>
+            {t(lang, 'delete')}
+          </button>
+        ) : (
+          <>
+            <span className="warn-text">
+              {t(lang, 'profiles.confirmDelete', { name: active.name })}
+            </span>
+            <button
+              onClick={() => {
+                setConfirmDelete(false);
+                onDelete(active.id);
+              }}
+            >
+              {t(lang, 'profiles.yesDelete')}
+            </button>
+            <button onClick={() => setConfirmDelete(false)}>{t(lang, 'cancel')}</button>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
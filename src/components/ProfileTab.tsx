@@ -1,5 +1,7 @@
-import type { Language, PlannerProfile } from '../types';
-import { t } from '../i18n';
+import type { BodyTypeRule, Goal, Language, NutrientGoal, NutrientKey, PlannerProfile, ProteinBasis, TargetMode } from '../types';
+import { formatNumber, t } from '../i18n';
+import { ACTIVITY_FACTORS, bodyTypeName, estimateEnergy, proteinMassKg } from '../utils/calc';
+import { NUTRIENTS, nutrientInfo } from '../utils/nutrients';
 
 interface ProfileTabProps {
   lang: Language;
@@ -10,16 +12,43 @@ interface ProfileTabProps {
 }
 
 export function ProfileTab({ lang, profile, cycleOptions, patchProfile, setCycleDays }: ProfileTabProps) {
+  const energy = profile.targetMode === 'energy' ? estimateEnergy(profile) : undefined;
+
+  function patchRule(id: string, patch: Partial<BodyTypeRule>) {
+    patchProfile('bodyTypeRules', profile.bodyTypeRules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  function addRule() {
+    const rule: BodyTypeRule = { id: `custom_${Date.now()}`, name: t(lang, 'custom'), carbPerKg: 2.5, fatPerKg: 1.0 };
+    patchProfile('bodyTypeRules', [...profile.bodyTypeRules, rule]);
+  }
+
+  function removeRule(id: string) {
+    patchProfile('bodyTypeRules', profile.bodyTypeRules.filter((r) => r.id !== id));
+  }
+
+  function patchGoal(index: number, patch: Partial<NutrientGoal>) {
+    patchProfile('nutrientGoals', profile.nutrientGoals.map((g, i) => (i === index ? { ...g, ...patch } : g)));
+  }
+
+  function addGoal() {
+    patchProfile('nutrientGoals', [...profile.nutrientGoals, { key: 'fiber', kind: 'min', value: 25 }]);
+  }
+
+  function removeGoal(index: number) {
+    patchProfile('nutrientGoals', profile.nutrientGoals.filter((_, i) => i !== index));
+  }
+
   return (
     <section className="surface">
-      <h2 className="title">Profile</h2>
+      <h2 className="title">{t(lang, 'tab.profile')}</h2>
       <div className="grid two">
         <div className="field">
           <label>{t(lang, 'sex')}</label>
           <select value={profile.sex} onChange={(e) => patchProfile('sex', e.target.value)}>
-            <option>Female</option>
-            <option>Male</option>
-            <option>Other</option>
+            <option value="Female">{t(lang, 'sex.Female')}</option>
+            <option value="Male">{t(lang, 'sex.Male')}</option>
+            <option value="Other">{t(lang, 'sex.Other')}</option>
           </select>
         </div>
 
@@ -35,39 +64,154 @@ export function ProfileTab({ lang, profile, cycleOptions, patchProfile, setCycle
           />
         </div>
 
+        <div className="field">
+          <label>{t(lang, 'bodyFat')}</label>
+          <input
+            type="number"
+            min={3}
+            max={60}
+            step={0.5}
+            value={profile.bodyFatPct ?? ''}
+            onChange={(e) => patchProfile('bodyFatPct', e.target.value === '' ? undefined : Number(e.target.value))}
+          />
+        </div>
+
+        <div className="field">
+          <label>{t(lang, 'targetMode')}</label>
+          <select value={profile.targetMode} onChange={(e) => patchProfile('targetMode', e.target.value as TargetMode)}>
+            <option value="perKg">{t(lang, 'modePerKg')}</option>
+            <option value="energy">{t(lang, 'modeEnergy')}</option>
+          </select>
+        </div>
+
+        {profile.targetMode === 'energy' && (
+          <>
+            <div className="field">
+              <label>{t(lang, 'age')}</label>
+              <input type="number" min={14} max={100} value={profile.ageYears} onChange={(e) => patchProfile('ageYears', Number(e.target.value))} />
+            </div>
+
+            <div className="field">
+              <label>{t(lang, 'height')}</label>
+              <input type="number" min={120} max={230} value={profile.heightCm} onChange={(e) => patchProfile('heightCm', Number(e.target.value))} />
+            </div>
+
+            <div className="field">
+              <label>{t(lang, 'activity')}</label>
+              <select value={profile.activityFactor} onChange={(e) => patchProfile('activityFactor', Number(e.target.value))}>
+                {ACTIVITY_FACTORS.map((a) => (
+                  <option key={a.value} value={a.value}>
+                    {t(lang, a.label)} (×{formatNumber(lang, a.value, 3)})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="field">
+              <label>{t(lang, 'goal')}</label>
+              <select value={profile.goal} onChange={(e) => patchProfile('goal', e.target.value as Goal)}>
+                <option value="cut">{t(lang, 'goal.cut')}</option>
+                <option value="maintain">{t(lang, 'goal.maintain')}</option>
+                <option value="bulk">{t(lang, 'goal.bulk')}</option>
+              </select>
+            </div>
+
+            {profile.goal !== 'maintain' && (
+              <div className="field">
+                <label>{t(lang, 'goalPct')}</label>
+                <input type="number" min={0} max={40} step={1} value={profile.goalPct} onChange={(e) => patchProfile('goalPct', Number(e.target.value))} />
+              </div>
+            )}
+
+            {energy && (
+              <div className="field">
+                <label>{t(lang, 'energyEstimate')}</label>
+                <div className="summary-row">
+                  <div className="mini-metric">BMR {formatNumber(lang, energy.bmr, 0)} ({energy.formula === 'katch' ? 'Katch-McArdle' : 'Mifflin-St Jeor'})</div>
+                  <div className="mini-metric">TDEE {formatNumber(lang, energy.tdee, 0)}</div>
+                  <div className="mini-metric">{t(lang, 'energyTarget', { kcal: formatNumber(lang, energy.targetKcal, 0) })}</div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
         <div className="field">
           <label>{t(lang, 'bodyType')}</label>
-          <select value={profile.bodyType} onChange={(e) => patchProfile('bodyType', e.target.value as 'endo' | 'ecto')}>
-            <option value="endo">Endo</option>
-            <option value="ecto">Ecto</option>
+          <select value={profile.bodyType} onChange={(e) => patchProfile('bodyType', e.target.value)}>
+            {profile.bodyTypeRules.map((r) => (
+              <option key={r.id} value={r.id}>
+                {bodyTypeName(r, lang)}
+              </option>
+            ))}
           </select>
         </div>
 
         <div className="field">
-          <label>{t(lang, 'proteinPerKg')} ({profile.proteinPerKg.toFixed(1)})</label>
+          <label>{t(lang, 'proteinPerKg')} ({formatNumber(lang, profile.proteinPerKg)})</label>
           <input
             type="range"
             min={0.8}
-            max={2.0}
+            max={profile.proteinBasis === 'lean' ? 3.0 : 2.0}
             step={0.1}
             value={profile.proteinPerKg}
             onChange={(e) => patchProfile('proteinPerKg', Number(e.target.value))}
           />
         </div>
 
-        {profile.bodyType === 'ecto' && (
-          <div className="field">
-            <label>{t(lang, 'ectoFat')} ({profile.ectoFatPerKg.toFixed(1)})</label>
-            <input
-              type="range"
-              min={1.0}
-              max={1.2}
-              step={0.1}
-              value={profile.ectoFatPerKg}
-              onChange={(e) => patchProfile('ectoFatPerKg', Number(e.target.value))}
-            />
+        <div className="field">
+          <label>{t(lang, 'proteinBasis')}</label>
+          <select value={profile.proteinBasis} onChange={(e) => patchProfile('proteinBasis', e.target.value as ProteinBasis)}>
+            <option value="total">{t(lang, 'totalMass')}</option>
+            <option value="lean" disabled={!profile.bodyFatPct}>
+              {t(lang, 'leanMass')}
+              {profile.bodyFatPct ? ` (${formatNumber(lang, proteinMassKg({ ...profile, proteinBasis: 'lean' }))} kg)` : ''}
+            </option>
+          </select>
+        </div>
+
+        <div className="field full">
+          <label>{t(lang, 'bodyTypeRules')}</label>
+          <div className="share-table">
+            {profile.bodyTypeRules.map((r) => (
+              <div key={r.id} className="share-line rule-line">
+                <input value={bodyTypeName(r, lang)} disabled={r.builtin} onChange={(e) => patchRule(r.id, { name: e.target.value })} aria-label={t(lang, 'name')} />
+                <span>{t(lang, 'carb')}</span>
+                <input type="number" min={0} step={0.1} value={r.carbPerKg} onChange={(e) => patchRule(r.id, { carbPerKg: Number(e.target.value) })} />
+                <span>{t(lang, 'fat')}</span>
+                <input type="number" min={0} step={0.1} value={r.fatPerKg} onChange={(e) => patchRule(r.id, { fatPerKg: Number(e.target.value) })} />
+                <button onClick={() => removeRule(r.id)} disabled={r.builtin || r.id === profile.bodyType}>
+                  ×
+                </button>
+              </div>
+            ))}
           </div>
-        )}
+          <button onClick={addRule}>{t(lang, 'addBodyType')}</button>
+        </div>
+
+        <div className="field full">
+          <label>{t(lang, 'nutrientGoals')}</label>
+          <div className="share-table">
+            {profile.nutrientGoals.map((g, i) => (
+              <div key={i} className="share-line rule-line">
+                <select value={g.key} onChange={(e) => patchGoal(i, { key: e.target.value as NutrientKey })}>
+                  {NUTRIENTS.map((n) => (
+                    <option key={n.key} value={n.key}>{t(lang, n.label)}</option>
+                  ))}
+                </select>
+                <span />
+                <select value={g.kind} onChange={(e) => patchGoal(i, { kind: e.target.value as NutrientGoal['kind'] })}>
+                  <option value="min">{t(lang, 'goalKind.min')}</option>
+                  <option value="max">{t(lang, 'goalKind.max')}</option>
+                </select>
+                <span>{nutrientInfo(g.key).unit}</span>
+                <input type="number" min={0} value={g.value} onChange={(e) => patchGoal(i, { value: Number(e.target.value) })} />
+                <button onClick={() => removeGoal(i)}>×</button>
+              </div>
+            ))}
+          </div>
+          <button onClick={addGoal}>{t(lang, 'addNutrientGoal')}</button>
+        </div>
 
         <div className="field">
           <label>{t(lang, 'cycleDays')}</label>
@@ -88,6 +232,16 @@ export function ProfileTab({ lang, profile, cycleOptions, patchProfile, setCycle
             />
           </div>
         </div>
+
+        <div className="field">
+          <label>{t(lang, 'cycleStart')}</label>
+          <input
+            type="date"
+            value={profile.cycleStartDate}
+            min={profile.cycleHistory?.[profile.cycleHistory.length - 1]?.endDate}
+            onChange={(e) => e.target.value && patchProfile('cycleStartDate', e.target.value)}
+          />
+        </div>
       </div>
     </section>
   );
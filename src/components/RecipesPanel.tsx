@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import type { Basis, Category, FoodItem, Language, Recipe } from '../types';
+import { formatNumber, localName, t } from '../i18n';
+import { rawWeightOf, recipeToFood } from '../utils/recipes';
+import { CATEGORY_ORDER } from '../utils/shopping';
+
+interface RecipesPanelProps {
+  lang: Language;
+  recipes: Recipe[];
+  baseFoods: FoodItem[];
+  foodsMap: Map<string, FoodItem>;
+  onSave: (recipe: Recipe) => void;
+  onDelete: (id: string) => void;
+}
+
+function emptyRecipe(): Recipe {
+  return { id: `recipe_${Date.now()}`, name_en: '', name_zh: '', category: 'other', ingredients: [], cookedWeightG: 0 };
+}
+
+export function RecipesPanel({ lang, recipes, baseFoods, foodsMap, onSave, onDelete }: RecipesPanelProps) {
+  const [draft, setDraft] = useState<Recipe | null>(null);
+  const [query, setQuery] = useState('');
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return baseFoods.filter((f) => f.name_en.toLowerCase().includes(q) || f.name_zh.toLowerCase().includes(q)).slice(0, 12);
+  }, [baseFoods, query]);
+  const foodName = (f: FoodItem | undefined, id: string) => (f ? localName(lang, f) : id);
+  const num = (n: number) => formatNumber(lang, n, 2);
+  const preview = draft ? recipeToFood(draft, foodsMap).variants[0] : undefined;
+
+  function patchIngredient(index: number, patch: { basis?: Basis; grams?: number }) {
+    if (!draft) return;
+    setDraft({ ...draft, ingredients: draft.ingredients.map((i, k) => (k === index ? { ...i, ...patch } : i)) });
+  }
+
+  function addIngredient(food: FoodItem) {
+    if (!draft) return;
+    setDraft({ ...draft, ingredients: [...draft.ingredients, { foodId: food.id, basis: food.variants[0]?.basis ?? 'raw', grams: 100 }] });
+    setQuery('');
+  }
+
+  function save() {
+    if (!draft || !draft.name_en.trim() || !draft.ingredients.length) return;
+    const cookedWeightG = draft.cookedWeightG > 0 ? draft.cookedWeightG : rawWeightOf(draft);
+    onSave({ ...draft, name_en: draft.name_en.trim(), name_zh: draft.name_zh.trim() || draft.name_en.trim(), cookedWeightG });
+    setDraft(null);
+  }
+
+  return (
+    <div className="subsurface stack-8">
+      <h3 className="subtitle">{t(lang, 'recipes.title')}</h3>
+      {recipes.map((r) => (
+        <div key={r.id} className="row wrap">
+          <span>
+            {localName(lang, r)} · {t(lang, 'recipes.summary', { count: r.ingredients.length, grams: r.cookedWeightG })}
+          </span>
+          <button onClick={() => setDraft({ ...r, ingredients: r.ingredients.map((i) => ({ ...i })) })}>{t(lang, 'edit')}</button>
+          <button onClick={() => onDelete(r.id)}>{t(lang, 'delete')}</button>
+        </div>
+      ))}
+      {!draft && <button onClick={() => setDraft(emptyRecipe())}>{t(lang, 'recipes.new')}</button>}
+
+      {draft && (
+        <div className="stack-8">
+          <div className="grid three">
+            <input placeholder={t(lang, 'import.nameEn')} value={draft.name_en} onChange={(e) => setDraft({ ...draft, name_en: e.target.value })} />
+            <input placeholder={t(lang, 'import.nameZh')} value={draft.name_zh} onChange={(e) => setDraft({ ...draft, name_zh: e.target.value })} />
+            <select value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value as Category })}>
+              {CATEGORY_ORDER.map((c) => (
+                <option key={c} value={c}>{t(lang, `cat.${c}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="table-wrap">
+            <table>
+              <thead>
+                <tr>
+                  <th>{t(lang, 'recipes.ingredient')}</th>
+                  <th>{t(lang, 'basis')}</th>
+                  <th>g</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {draft.ingredients.map((i, k) => {
+                  const food = foodsMap.get(i.foodId);
+                  return (
+                    <tr key={`${i.foodId}-${k}`}>
+                      <td>{foodName(food, i.foodId)}</td>
+                      <td>
+                        <select value={i.basis} onChange={(e) => patchIngredient(k, { basis: e.target.value as Basis })}>
+                          {(food?.variants ?? []).map((v) => (
+                            <option key={v.basis} value={v.basis}>{t(lang, `basis.${v.basis}`)}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <input type="number" min={0} step={5} value={i.grams} onChange={(e) => patchIngredient(k, { grams: Math.max(0, Number(e.target.value)) })} />
+                      </td>
+                      <td>
+                        <button onClick={() => setDraft({ ...draft, ingredients: draft.ingredients.filter((_, n) => n !== k) })}>×</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <input className="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t(lang, 'recipes.addIngredient')} />
+          <div className="row wrap">
+            {matches.map((f) => (
+              <button key={f.id} onClick={() => addIngredient(f)}>
+                {foodName(f, f.id)}
+              </button>
+            ))}
+          </div>
+
+          <div className="row wrap">
+            <label>{t(lang, 'recipes.cookedWeight')}</label>
+            <input
+              className="constraint-input"
+              type="number"
+              min={0}
+              value={draft.cookedWeightG || ''}
+              placeholder={String(rawWeightOf(draft))}
+              onChange={(e) => setDraft({ ...draft, cookedWeightG: Math.max(0, Number(e.target.value)) })}
+            />
+            {preview && draft.cookedWeightG > 0 && (
+              <span className="small">
+                {t(lang, 'recipes.per100')}: {num(preview.kcal ?? 0)} kcal · P/C/F {num(preview.p)}/{num(preview.c)}/{num(preview.f)} g
+              </span>
+            )}
+          </div>
+
+          <div className="row wrap">
+            <button onClick={save} disabled={!draft.name_en.trim() || !draft.ingredients.length}>
+              {t(lang, 'recipes.save')}
+            </button>
+            <button onClick={() => setDraft(null)}>{t(lang, 'cancel')}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
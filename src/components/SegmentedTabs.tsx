@@ -1,19 +1,27 @@
-export type MainTab = 'profile' | 'plan' | 'foods';
+import type { Language } from '../types';
+import { t, type MessageKey } from '../i18n';
+
+export type MainTab = 'profile' | 'plan' | 'calendar' | 'foods' | 'shopping' | 'log' | 'weight';
 
 interface SegmentedTabsProps {
+  lang: Language;
   active: MainTab;
   onChange: (tab: MainTab) => void;
 }
 
-const tabs: Array<{ key: MainTab; label: string }> = [
-  { key: 'profile', label: 'Profile' },
-  { key: 'plan', label: 'Plan' },
-  { key: 'foods', label: 'Foods' }
+const tabs: Array<{ key: MainTab; label: MessageKey }> = [
+  { key: 'profile', label: 'tab.profile' },
+  { key: 'plan', label: 'tab.plan' },
+  { key: 'calendar', label: 'tab.calendar' },
+  { key: 'foods', label: 'tab.foods' },
+  { key: 'shopping', label: 'tab.shopping' },
+  { key: 'log', label: 'tab.log' },
+  { key: 'weight', label: 'tab.weight' }
 ];
 
-export function SegmentedTabs({ active, onChange }: SegmentedTabsProps) {
+export function SegmentedTabs({ lang, active, onChange }: SegmentedTabsProps) {
   return (
-    <div className="segmented-tabs" role="tablist" aria-label="Main Sections">
+    <div className="segmented-tabs" role="tablist" aria-label={t(lang, 'mainSections')}>
       {tabs.map((tab) => (
         <button
           key={tab.key}
@@ -23,7 +31,7 @@ export function SegmentedTabs({ active, onChange }: SegmentedTabsProps) {
           className={active === tab.key ? 'seg-btn active' : 'seg-btn'}
           onClick={() => onChange(tab.key)}
         >
-          {tab.label}
+          {t(lang, tab.label)}
         </button>
       ))}
     </div>
@@ -0,0 +1,40 @@
+import type { Language } from '../types';
+import { t } from '../i18n';
+import type { LoadResult } from '../utils/backup';
+
+interface ShareImportPanelProps {
+  lang: Language;
+  /** The decoded link, or undefined when `error` is set. */
+  result?: LoadResult;
+  error?: string;
+  onImport: (result: LoadResult) => void;
+  onDismiss: () => void;
+}
+
+/** Shown when the app is opened from a share link. */
+export function ShareImportPanel({ lang, result, error, onImport, onDismiss }: ShareImportPanelProps) {
+  return (
+    <section className="surface stack-16">
+      <h2 className="title">{t(lang, 'share.incoming')}</h2>
+      {error && <div className="error-box">{error}</div>}
+      {result && (
+        <div className="subsurface stack-8">
+          <div className="small">
+            {t(lang, 'share.summary', {
+              days: Object.keys(result.data.dayPlans).length,
+              foods: result.data.customFoods.length,
+              recipes: result.data.recipes.length
+            })}
+          </div>
+          {result.issues.map((issue) => (
+            <div key={issue} className="warn-text">{issue}</div>
+          ))}
+        </div>
+      )}
+      <div className="row">
+        {result && <button onClick={() => onImport(result)}>{t(lang, 'share.importAsProfile')}</button>}
+        <button onClick={onDismiss}>{t(lang, 'share.dismiss')}</button>
+      </div>
+    </section>
+  );
+}
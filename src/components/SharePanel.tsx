@@ -0,0 +1,69 @@
+import { useMemo, useState } from 'react';
+import type { Language } from '../types';
+import { t } from '../i18n';
+import { encodeQr, qrDataUrl } from '../utils/qr';
+import { canShare } from '../utils/share';
+
+interface SharePanelProps {
+  lang: Language;
+  /** Profile validation errors; a link is only made from a consistent profile. */
+  errors: string[];
+  onCreate: () => Promise<string>;
+  onCopied: () => void;
+  onDownloadQr: (dataUrl: string) => void;
+}
+
+export function SharePanel({ lang, errors, onCreate, onCopied, onDownloadQr }: SharePanelProps) {
+  const [link, setLink] = useState('');
+  const [error, setError] = useState('');
+  const qr = useMemo(() => {
+    const modules = link ? encodeQr(link) : undefined;
+    return modules ? qrDataUrl(modules) : '';
+  }, [link]);
+
+  async function handleCreate() {
+    setError('');
+    try {
+      setLink(await onCreate());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(link);
+      onCopied();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <section className="surface stack-16">
+      <h2 className="title">{t(lang, 'share.title')}</h2>
+      <p className="small">{t(lang, 'share.help')}</p>
+      {canShare() ? (
+        <div className="row wrap">
+          <button onClick={handleCreate} disabled={errors.length > 0}>{t(lang, 'share.create')}</button>
+          {link && <button onClick={handleCopy}>{t(lang, 'share.copy')}</button>}
+          {qr && <button onClick={() => onDownloadQr(qr)}>{t(lang, 'share.downloadQr')}</button>}
+        </div>
+      ) : (
+        <div className="warn-text">{t(lang, 'share.unavailable')}</div>
+      )}
+      {errors.length > 0 && <div className="warn-text">{t(lang, 'share.fixErrors', { errors: errors.join(' ') })}</div>}
+      {error && <div className="error-box">{error}</div>}
+      {link && (
+        <div className="subsurface stack-8">
+          <input readOnly value={link} onFocus={(e) => e.target.select()} aria-label={t(lang, 'share.copy')} />
+          {qr ? (
+            <img src={qr} alt={t(lang, 'share.title')} width={240} height={240} />
+          ) : (
+            <div className="warn-text">{t(lang, 'share.tooLongForQr', { length: link.length })}</div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,93 @@
+import { useMemo, useState } from 'react';
+import type { DayPlan, FoodItem, Language, PlannerProfile, Recipe } from '../types';
+import { formatNumber, localName, t } from '../i18n';
+import { addDays, todayIso } from '../utils/calendar';
+import { CATEGORY_ORDER, buildShoppingList, cyclePlans, rangePlans, type ShoppingItem } from '../utils/shopping';
+
+interface ShoppingTabProps {
+  lang: Language;
+  profile: PlannerProfile;
+  dayPlans: Record<number, DayPlan>;
+  foodsMap: Map<string, FoodItem>;
+  recipesMap: Map<string, Recipe>;
+  checked: string[];
+  onToggle: (key: string, checked: boolean) => void;
+  onClearChecked: () => void;
+  onExportCsv: (items: ShoppingItem[]) => void;
+  onExportXlsx: (items: ShoppingItem[]) => void;
+  onExportImage: (items: ShoppingItem[], title: string) => void;
+}
+
+export function ShoppingTab({
+  lang,
+  profile,
+  dayPlans,
+  foodsMap,
+  recipesMap,
+  checked,
+  onToggle,
+  onClearChecked,
+  onExportCsv,
+  onExportXlsx,
+  onExportImage
+}: ShoppingTabProps) {
+  const [mode, setMode] = useState<'cycle' | 'range'>('cycle');
+  const [from, setFrom] = useState(todayIso);
+  const [to, setTo] = useState(() => addDays(todayIso(), 6));
+
+  const plans = useMemo(
+    () => (mode === 'cycle' ? cyclePlans(dayPlans, profile.cycleDays) : rangePlans(profile, dayPlans, from, to)),
+    [mode, dayPlans, profile, from, to]
+  );
+  const items = useMemo(() => buildShoppingList(plans, foodsMap, recipesMap), [plans, foodsMap, recipesMap]);
+  const title = mode === 'cycle' ? t(lang, 'shopping.cycleTitle', { days: profile.cycleDays }) : `${from} → ${to}`;
+
+  return (
+    <section className="surface stack-16 with-bottom-pad">
+      <h2 className="title">{t(lang, 'shopping')}</h2>
+
+      <div className="row wrap">
+        <select value={mode} onChange={(e) => setMode(e.target.value as 'cycle' | 'range')}>
+          <option value="cycle">{t(lang, 'shopping.wholeCycle')}</option>
+          <option value="range">{t(lang, 'shopping.dateRange')}</option>
+        </select>
+        {mode === 'range' && (
+          <>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            <span>→</span>
+            <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </>
+        )}
+        <span className="small">{t(lang, 'shopping.plannedDays', { count: plans.length })}</span>
+      </div>
+
+      <div className="row wrap">
+        <button onClick={() => onExportCsv(items)}>{t(lang, 'exportCsv')}</button>
+        <button onClick={() => onExportXlsx(items)}>{t(lang, 'exportXlsx')}</button>
+        <button onClick={() => onExportImage(items, title)}>{t(lang, 'saveImage')}</button>
+        <button onClick={onClearChecked} disabled={!checked.length}>{t(lang, 'shopping.uncheckAll')}</button>
+      </div>
+
+      {!items.length && <p className="small">{t(lang, 'shopping.empty')}</p>}
+
+      {CATEGORY_ORDER.map((category) => {
+        const group = items.filter((i) => i.category === category);
+        if (!group.length) return null;
+        return (
+          <div key={category} className="subsurface stack-8">
+            <h3 className="subtitle">{t(lang, `cat.${category}`)}</h3>
+            {group.map((item) => (
+              <label key={item.key} className="row checkbox">
+                <input type="checkbox" checked={checked.includes(item.key)} onChange={(e) => onToggle(item.key, e.target.checked)} />
+                <span className={checked.includes(item.key) ? 'checked-item' : undefined}>
+                  {localName(lang, item)} — {formatNumber(lang, item.grams, 2)} g {t(lang, `basis.${item.basis}`)}
+                  <span className="food-sub"> · {t(lang, 'shopping.days', { count: item.days })}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        );
+      })}
+    </section>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import type { DayTemplate, DayType, FoodItem, Language } from '../types';
+import { localName, t } from '../i18n';
+
+interface TemplatesPanelProps {
+  lang: Language;
+  templates: DayTemplate[];
+  foodsMap: Map<string, FoodItem>;
+  selectedDay: number;
+  currentDayType?: DayType;
+  onSave: (name: string) => void;
+  onApply: (id: string, scope: 'day' | DayType, rescale: boolean) => void;
+  onPatch: (id: string, patch: Partial<DayTemplate>) => void;
+  onDelete: (id: string) => void;
+}
+
+const DAY_TYPES: DayType[] = ['High', 'Medium', 'Low'];
+
+export function TemplatesPanel({ lang, templates, foodsMap, selectedDay, currentDayType, onSave, onApply, onPatch, onDelete }: TemplatesPanelProps) {
+  const [name, setName] = useState('');
+  const [rescale, setRescale] = useState(true);
+  const [scopes, setScopes] = useState<Record<string, 'day' | DayType>>({});
+  const [editingId, setEditingId] = useState('');
+  const foodName = (id: string) => {
+    const f = foodsMap.get(id);
+    return f ? localName(lang, f) : id;
+  };
+  const dayLabel = t(lang, 'templates.dayN', { day: String(selectedDay) });
+
+  function patchEntryGrams(template: DayTemplate, mealId: string, index: number, grams: number | null) {
+    onPatch(template.id, {
+      meals: template.meals.map((m) =>
+        m.id !== mealId
+          ? m
+          : {
+              ...m,
+              entries: grams === null ? m.entries.filter((_, i) => i !== index) : m.entries.map((e, i) => (i === index ? { ...e, grams } : e))
+            }
+      )
+    });
+  }
+
+  return (
+    <div className="subsurface stack-8">
+      <h3 className="subtitle">{t(lang, 'templates.title')}</h3>
+      <div className="row wrap">
+        <input placeholder={`${dayLabel}${currentDayType ? ` (${t(lang, `dayType.${currentDayType}`)})` : ''}`} value={name} onChange={(e) => setName(e.target.value)} />
+        <button
+          onClick={() => {
+            onSave(name);
+            setName('');
+          }}
+        >
+          {t(lang, 'templates.save')}
+        </button>
+      </div>
+      {templates.length > 0 && (
+        <label className="row checkbox">
+          <input type="checkbox" checked={rescale} onChange={(e) => setRescale(e.target.checked)} />
+          <span>{t(lang, 'templates.rescale')}</span>
+        </label>
+      )}
+      {templates.map((tpl) => {
+        const scope = scopes[tpl.id] ?? 'day';
+        const entryCount = tpl.meals.reduce((s, m) => s + m.entries.length, 0);
+        return (
+          <div key={tpl.id} className="stack-8">
+            <div className="row wrap">
+              <strong>{tpl.name}</strong>
+              <span className="small">
+                {tpl.dayType ? `${t(lang, `dayType.${tpl.dayType}`)} · ` : ''}
+                {t(lang, 'templates.summary', { meals: tpl.meals.length, foods: entryCount })}
+              </span>
+              <select value={scope} onChange={(e) => setScopes((s) => ({ ...s, [tpl.id]: e.target.value as 'day' | DayType }))}>
+                <option value="day">{dayLabel}</option>
+                {DAY_TYPES.map((d) => (
+                  <option key={d} value={d}>{t(lang, 'templates.allDays', { dayType: t(lang, `dayType.${d}`) })}</option>
+                ))}
+              </select>
+              <button onClick={() => onApply(tpl.id, scope, rescale)}>{t(lang, 'apply')}</button>
+              <button onClick={() => setEditingId(editingId === tpl.id ? '' : tpl.id)}>{editingId === tpl.id ? t(lang, 'done') : t(lang, 'edit')}</button>
+              <button onClick={() => onDelete(tpl.id)}>{t(lang, 'delete')}</button>
+            </div>
+            {editingId === tpl.id && (
+              <div className="stack-8">
+                <input value={tpl.name} onChange={(e) => onPatch(tpl.id, { name: e.target.value })} aria-label={t(lang, 'templates.name')} />
+                <div className="table-wrap">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>{t(lang, 'meal')}</th>
+                        <th>{t(lang, 'food')}</th>
+                        <th>{t(lang, 'basis')}</th>
+                        <th>g</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {tpl.meals.flatMap((m) =>
+                        m.entries.map((e, i) => (
+                          <tr key={`${m.id}_${e.foodId}_${i}`}>
+                            <td>{m.name}</td>
+                            <td>{foodName(e.foodId)}</td>
+                            <td>{t(lang, `basis.${e.basis}`)}</td>
+                            <td>
+                              <input type="number" min={0} value={e.grams} onChange={(ev) => patchEntryGrams(tpl, m.id, i, Math.max(0, Number(ev.target.value)))} />
+                            </td>
+                            <td>
+                              <button onClick={() => patchEntryGrams(tpl, m.id, i, null)}>{t(lang, 'remove')}</button>
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
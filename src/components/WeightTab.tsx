@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import type { Language, PlannerProfile } from '../types';
+import { formatNumber, t } from '../i18n';
+import { todayIso } from '../utils/calendar';
+import type { TrendPoint } from '../utils/weight';
+
+interface WeightTabProps {
+  lang: Language;
+  profile: PlannerProfile;
+  trend: TrendPoint[];
+  planWeight: number;
+  cycleStart: string;
+  onAdd: (date: string, kg: number) => void;
+  onRemove: (date: string) => void;
+  onToggleTrend: (on: boolean) => void;
+}
+
+const CHART_W = 640;
+const CHART_H = 220;
+const PAD = 28;
+
+function TrendChart({ lang, points }: { lang: Language; points: TrendPoint[] }) {
+  if (points.length < 2) return <div className="small">{t(lang, 'weight.needTwo')}</div>;
+  const values = points.flatMap((p) => [p.kg, p.trend]);
+  const min = Math.min(...values) - 0.5;
+  const max = Math.max(...values) + 0.5;
+  const x = (i: number) => PAD + (i / (points.length - 1)) * (CHART_W - PAD * 2);
+  const y = (v: number) => CHART_H - PAD - ((v - min) / (max - min)) * (CHART_H - PAD * 2);
+  const line = points.map((p, i) => `${x(i)},${y(p.trend)}`).join(' ');
+
+  return (
+    <svg className="trend-chart" viewBox={`0 0 ${CHART_W} ${CHART_H}`} role="img" aria-label={t(lang, 'weight.trendChart')}>
+      <text x={4} y={PAD} className="chart-label">{formatNumber(lang, max)}</text>
+      <text x={4} y={CHART_H - PAD} className="chart-label">{formatNumber(lang, min)}</text>
+      {points.map((p, i) => (
+        <circle key={p.date} cx={x(i)} cy={y(p.kg)} r={3} className="chart-point" />
+      ))}
+      <polyline points={line} className="chart-line" />
+      <text x={PAD} y={CHART_H - 6} className="chart-label">{points[0].date}</text>
+      <text x={CHART_W - PAD} y={CHART_H - 6} textAnchor="end" className="chart-label">{points[points.length - 1].date}</text>
+    </svg>
+  );
+}
+
+export function WeightTab({ lang, profile, trend, planWeight, cycleStart, onAdd, onRemove, onToggleTrend }: WeightTabProps) {
+  const [date, setDate] = useState(todayIso);
+  const [kg, setKg] = useState(profile.weightKg);
+  const latest = trend[trend.length - 1];
+
+  return (
+    <section className="surface stack-16">
+      <h2 className="title">{t(lang, 'weight.title')}</h2>
+
+      <div className="row wrap">
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        <input type="number" min={30} max={300} step={0.1} value={kg} onChange={(e) => setKg(Number(e.target.value))} aria-label="kg" />
+        <button onClick={() => onAdd(date, kg)}>{t(lang, 'weight.log')}</button>
+      </div>
+
+      <div className="summary-row">
+        <div className="mini-metric">{t(lang, 'weight.trend')} {latest ? `${formatNumber(lang, latest.trend, 2)} kg` : '—'}</div>
+        <div className="mini-metric">{t(lang, 'weight.planning', { kg: planWeight })}</div>
+      </div>
+
+      <label className="row">
+        <input type="checkbox" checked={!!profile.useTrendWeight} onChange={(e) => onToggleTrend(e.target.checked)} />
+        <span>{t(lang, 'weight.useTrend')}</span>
+      </label>
+      {profile.useTrendWeight && (
+        <div className="small">{t(lang, 'weight.cycleStarted', { date: cycleStart })}</div>
+      )}
+
+      <TrendChart lang={lang} points={trend} />
+
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>{t(lang, 'date')}</th>
+              <th>kg</th>
+              <th>{t(lang, 'weight.trend')}</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {[...trend].reverse().map((p) => (
+              <tr key={p.date}>
+                <td>{p.date}</td>
+                <td>{formatNumber(lang, p.kg, 2)}</td>
+                <td>{formatNumber(lang, p.trend, 2)}</td>
+                <td>
+                  <button onClick={() => onRemove(p.date)}>{t(lang, 'remove')}</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -1,32 +1,49 @@
 import type { Language } from './types';
+import { en, type MessageKey, type Messages } from './locales/en';
+import { zh } from './locales/zh';
+import { ja } from './locales/ja';
+import { es } from './locales/es';
 
-export const labels = {
-  appTitle: { en: 'CarbCycler Planner', zh: '碳循环计划器' },
-  language: { en: 'Language', zh: '语言' },
-  sex: { en: 'Sex', zh: '性别' },
-  weight: { en: 'Weight (kg)', zh: '体重 (kg)' },
-  bodyType: { en: 'Body Type', zh: '体型' },
-  proteinPerKg: { en: 'Protein (g/kg)', zh: '蛋白 (g/kg)' },
-  ectoFat: { en: 'Ecto Fat (g/kg)', zh: '外胚型脂肪 (g/kg)' },
-  cycleDays: { en: 'Cycle Days', zh: '周期天数' },
-  customDays: { en: 'Custom days', zh: '自定义天数' },
-  shares: { en: 'Macro Shares', zh: '宏量分配' },
-  dayCounts: { en: 'Day Counts', zh: '高中低碳天数' },
-  dayPlacement: { en: 'Day-by-Day Placement', zh: '逐日类型排布' },
-  targets: { en: 'Cycle Targets', zh: '周期目标' },
-  planner: { en: 'Daily Meal Planner', zh: '每日饮食计划' },
-  autoGenerate: { en: 'Auto-generate grams', zh: '自动生成克数' },
-  addCustomFood: { en: 'Add Custom Food', zh: '添加自定义食物' },
-  exportCsv: { en: 'Export CSV', zh: '导出 CSV' },
-  exportXlsx: { en: 'Export XLSX', zh: '导出 XLSX' },
-  dayPoster: { en: 'Export Day Poster', zh: '导出当日海报' },
-  cyclePoster: { en: 'Export Cycle Poster', zh: '导出周期海报' },
-  search: { en: 'Search foods', zh: '搜索食物' },
-  categories: { en: 'Categories', zh: '分类' },
-  deviation: { en: 'Deviation', zh: '偏差' },
-  saveImage: { en: 'Save Image', zh: '保存图片' }
-} as const;
-
-export function t(lang: Language, key: keyof typeof labels): string {
-  return labels[key][lang];
+export type { MessageKey, Messages };
+
+// Every locale is typed as `Messages`, so a missing or misspelled key fails
+// the type-check (and with it `npm run build`).
+const messages: Record<Language, Messages> = { en, zh, ja, es };
+
+export const LANGUAGES: Array<{ code: Language; label: string; locale: string }> = [
+  { code: 'en', label: 'English', locale: 'en-US' },
+  { code: 'zh', label: '中文', locale: 'zh-CN' },
+  { code: 'ja', label: '日本語', locale: 'ja-JP' },
+  { code: 'es', label: 'Español', locale: 'es-ES' }
+];
+
+export function isLanguage(v: unknown): v is Language {
+  return LANGUAGES.some((l) => l.code === v);
+}
+
+export function localeOf(lang: Language): string {
+  return LANGUAGES.find((l) => l.code === lang)?.locale ?? 'en-US';
+}
+
+export type MessageParams = Record<string, string | number>;
+
+/** Locale-aware number, e.g. 1,234.5 (en) or 1.234,5 (es). */
+export function formatNumber(lang: Language, n: number, maxDigits = 1): string {
+  return new Intl.NumberFormat(localeOf(lang), { maximumFractionDigits: maxDigits }).format(n);
+}
+
+/** Translated message; `{name}` placeholders are filled from `params`, numbers formatted for the locale. */
+export function t(lang: Language, key: MessageKey, params?: MessageParams): string {
+  const template = messages[lang][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(lang, value, 2) : value;
+  });
+}
+
+/** Foods carry English and Chinese names; other languages show the English one. */
+export function localName(lang: Language, item: { name_en: string; name_zh: string }): string {
+  return lang === 'zh' ? item.name_zh || item.name_en : item.name_en;
 }
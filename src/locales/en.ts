@@ -0,0 +1,396 @@
+/** English messages; the source of truth for message keys. */
+export const en = {
+  appTitle: 'CarbCycler Planner',
+  language: 'Language',
+  sex: 'Sex',
+  weight: 'Weight (kg)',
+  bodyType: 'Body Type',
+  proteinPerKg: 'Protein (g/kg)',
+  proteinBasis: 'Protein Based On',
+  totalMass: 'Total bodyweight',
+  leanMass: 'Lean body mass',
+  bodyTypeRules: 'Body Type Rules (g/kg)',
+  addBodyType: 'Add body type',
+  nutrientGoals: 'Daily Nutrient Goals',
+  addNutrientGoal: 'Add goal',
+  targetMode: 'Targeting Mode',
+  modePerKg: 'Per kg (body type)',
+  modeEnergy: 'Energy (BMR/TDEE)',
+  age: 'Age',
+  height: 'Height (cm)',
+  bodyFat: 'Body Fat % (optional)',
+  carb: 'Carb',
+  fat: 'Fat',
+  protein: 'Protein',
+  activity: 'Activity Level',
+  goal: 'Goal',
+  goalPct: 'Deficit / Surplus (%)',
+  energyEstimate: 'Energy Estimate',
+  cycleDays: 'Cycle Days',
+  customDays: 'Custom days',
+  cycleStart: 'Cycle Start Date (D1)',
+  calendar: 'Calendar',
+  today: 'Today',
+  shopping: 'Shopping List',
+  shares: 'Macro Shares',
+  dayCounts: 'Day Counts (High / Medium / Low)',
+  dayPlacement: 'Day Type Placement (counts fixed)',
+  targets: 'Cycle Targets',
+  planner: 'Daily Meal Planner',
+  autoGenerate: 'Auto-generate grams',
+  addCustomFood: 'Add Custom Food',
+  exportCsv: 'Export CSV',
+  exportXlsx: 'Export XLSX',
+  dayPoster: 'Export Day Poster',
+  cyclePoster: 'Export Cycle Poster',
+  search: 'Search foods',
+  categories: 'Categories',
+  deviation: 'Deviation',
+  saveImage: 'Save Image',
+  undo: 'Undo',
+  redo: 'Redo',
+  remove: 'Remove',
+  delete: 'Delete',
+  edit: 'Edit',
+  done: 'Done',
+  cancel: 'Cancel',
+  save: 'Save',
+  apply: 'Apply',
+  create: 'Create',
+  confirm: 'Confirm',
+  name: 'Name',
+  date: 'Date',
+  day: 'Day',
+  type: 'Type',
+  food: 'Food',
+  basis: 'Basis',
+  grams: 'g',
+  ok: 'OK',
+  imageExported: 'Image exported.',
+  'tab.profile': 'Profile',
+  'tab.plan': 'Plan',
+  'tab.calendar': 'Calendar',
+  'tab.foods': 'Foods',
+  'tab.shopping': 'Shopping',
+  'tab.log': 'Log',
+  'tab.weight': 'Weight',
+  mainSections: 'Main Sections',
+  'cat.all': 'All',
+  'cat.protein': 'Protein',
+  'cat.carb': 'Carb',
+  'cat.fat': 'Fat',
+  'cat.veg': 'Veg',
+  'cat.fruit': 'Fruit',
+  'cat.dairy': 'Dairy',
+  'cat.other': 'Other',
+  'dayType.High': 'High',
+  'dayType.Medium': 'Medium',
+  'dayType.Low': 'Low',
+  'basis.raw': 'raw',
+  'basis.cooked': 'cooked',
+  'basis.fresh': 'fresh',
+  'intensity.rest': 'rest',
+  'intensity.light': 'light',
+  'intensity.moderate': 'moderate',
+  'intensity.hard': 'hard',
+  'weekday.0': 'Mon',
+  'weekday.1': 'Tue',
+  'weekday.2': 'Wed',
+  'weekday.3': 'Thu',
+  'weekday.4': 'Fri',
+  'weekday.5': 'Sat',
+  'weekday.6': 'Sun',
+  'sex.Female': 'Female',
+  'sex.Male': 'Male',
+  'sex.Other': 'Other',
+  'goal.cut': 'Cut',
+  'goal.maintain': 'Maintain',
+  'goal.bulk': 'Bulk',
+  'activity.sedentary': 'Sedentary',
+  'activity.light': 'Light',
+  'activity.moderate': 'Moderate',
+  'activity.veryActive': 'Very active',
+  'activity.athlete': 'Athlete',
+  'meal.allDay': 'All day',
+  'meal.breakfast': 'Breakfast',
+  'meal.lunch': 'Lunch',
+  'meal.dinner': 'Dinner',
+  'meal.snack': 'Snack',
+  'meal.preWorkout': 'Pre-workout',
+  'meal.postWorkout': 'Post-workout',
+  'nutrient.fiber': 'Fiber',
+  'nutrient.sugar': 'Sugar',
+  'nutrient.satFat': 'Sat. fat',
+  'nutrient.sodium': 'Sodium',
+  'nutrient.potassium': 'Potassium',
+  'nutrient.calcium': 'Calcium',
+  'nutrient.iron': 'Iron',
+  'nutrient.vitaminC': 'Vitamin C',
+  'goalKind.min': 'min',
+  'goalKind.max': 'max',
+  'error.dayCountsSum': 'Day counts must sum to cycle days.',
+  'error.carbSharesSum': 'Carb shares must sum to 1.0.',
+  'error.fatSharesSum': 'Fat shares must sum to 1.0.',
+  'error.proteinExceedsEnergy': 'Protein alone exceeds the daily calorie target.',
+  'error.placementCounts': 'Day placement must keep fixed counts for High/Medium/Low.',
+  'warning.nutrientBelow': '{nutrient} {actual} {unit} is below the {goal} {unit} minimum.',
+  'warning.nutrientAbove': '{nutrient} {actual} {unit} is above the {goal} {unit} maximum.',
+  'warning.nutrientUnknown': '{nutrient} is missing for some foods ({actual} {unit} known), so the {goal} {unit} goal cannot be checked.',
+  'placement.swapped': '{day} ({weekday}, {intensity}) → {dayType}: moved to avoid back-to-back Low days.',
+  'placement.high': '{day} ({weekday}, {intensity}) → {dayType}: among the {high} hardest sessions.',
+  'placement.low': '{day} ({weekday}, {intensity}) → {dayType}: among the {low} lightest days.',
+  'placement.medium': '{day} ({weekday}, {intensity}) → {dayType}: between the hardest sessions and the lightest days.',
+  category: 'Category',
+  'import.nameEn': 'Name (EN)',
+  'import.nameZh': 'Name (ZH)',
+  'import.servingGrams': 'Values per (g)',
+  'import.missingName': 'Missing name.',
+  'import.unknownCategory': 'Unknown category "{value}".',
+  'import.unknownBasis': 'Unknown basis "{value}".',
+  'import.servingPositive': 'Serving grams must be positive.',
+  'import.missingField': 'Missing {field}.',
+  'import.invalidField': 'Invalid {field} "{value}".',
+  'import.macrosExceed': 'Protein + carb + fat exceed 100 g per 100 g.',
+  'import.line': 'line {line}',
+  'backup.profileUnreadable': 'Profile was unreadable and has been reset.',
+  'backup.profileFieldsReset': 'Profile fields reset to defaults: {fields}.',
+  'backup.profileEntriesDropped': 'Profile {field}: {count} invalid entries were skipped.',
+  'backup.listUnreadable': '{label} were unreadable and have been reset.',
+  'backup.listCorrupt': '{label}: {count} corrupt entries were skipped.',
+  'backup.dayPlans': 'Day plans',
+  'backup.templates': 'Day templates',
+  'backup.intakeLog': 'Intake log',
+  'backup.customFoods': 'Custom foods',
+  'backup.recipes': 'Recipes',
+  'backup.weightEntries': 'Weight entries',
+  'backup.hiddenFoods': 'Hidden food ids',
+  'backup.shoppingChecks': 'Shopping list checks',
+  'backup.portions': 'Food portions',
+  'backup.ingredients': 'Recipe ingredients',
+  'backup.notJson': 'The file is not valid JSON.',
+  'backup.notBackup': 'The file is not a CarbCycler backup.',
+  'backup.newerVersion': 'The backup was made by a newer version (schema {version}); update the app first.',
+  weeklyTraining: 'Weekly Training',
+  autoPlace: 'Auto-place from training',
+  proteinTarget: 'P target',
+  carbTarget: 'C target',
+  fatTarget: 'F target',
+  nutrients: 'Nutrients',
+  expandRecipes: 'Expand recipes',
+  custom: 'Custom',
+  energyTarget: 'Target {kcal} kcal',
+  'bodyType.endo': 'Endomorph',
+  'bodyType.meso': 'Mesomorph',
+  'bodyType.ecto': 'Ectomorph',
+  'weight.title': 'Bodyweight',
+  'weight.needTwo': 'Log at least two weigh-ins to see a trend.',
+  'weight.trendChart': 'Weight trend',
+  'weight.log': 'Log weight',
+  'weight.trend': 'Trend',
+  'weight.planning': 'Planning weight {kg} kg',
+  'weight.useTrend': 'Recalculate targets from the trend weight at the start of each new cycle',
+  'weight.cycleStarted': 'Current cycle started {date}; earlier cycles keep the weight they were planned with.',
+  'log.title': 'Intake Log',
+  'log.adherence': 'Adherence',
+  'log.target': 'P/C/F target',
+  'log.eaten': 'Eaten',
+  'log.noTarget': 'No cycle target for this date.',
+  'log.planned': 'Planned',
+  'log.nothingPlanned': 'Nothing planned for this date.',
+  'log.confirmAll': 'Confirm all planned',
+  'log.source': 'Source',
+  'log.fromPlan': 'plan',
+  'log.offPlan': 'off-plan',
+  'log.searchOffPlan': 'Search off-plan food',
+  'log.addOffPlan': 'Add off-plan food',
+  'log.history': 'History',
+  'log.noHistory': 'No logged days yet.',
+  'foods.targets': 'Targets',
+  'foods.actual': 'Actual',
+  'foods.mealTarget': '{meal} target',
+  'foods.mealActual': '{meal} actual',
+  'foods.bestAchievable': 'Best achievable with these foods. Unmet P/C/F:',
+  'foods.meals': 'Meals',
+  'foods.mealName': 'Meal name',
+  'foods.removeMeal': 'Remove meal',
+  'foods.splitWeight': '{macro} weight',
+  'foods.addMeal': 'Add meal',
+  'foods.selected': 'Selected Foods',
+  'foods.amount': 'Amount',
+  'foods.min': 'Min',
+  'foods.max': 'Max',
+  'foods.step': 'Step',
+  'foods.lock': 'Lock',
+  'foods.unit': 'Unit',
+  'foods.rawEquivalent': '≈ {grams} g raw',
+  'foods.lockAmount': 'Lock amount',
+  'foods.yieldPlaceholder': 'Yield (cooked g per raw g)',
+  'foods.saveCustom': 'Save Custom Food',
+  'foods.customFood': 'Custom food',
+  'foods.bases': 'Bases',
+  'foods.yield': 'Yield (cooked/raw)',
+  'foods.portions': 'Portions (name=g)',
+  'foods.wholePortions': 'Whole portions',
+  'foods.shownInProfile': 'Shown in profile',
+  'foods.roundToPortions': 'Round to whole portions',
+  'foods.showInProfile': 'Show in this profile',
+  status: 'Status',
+  'import.title': 'Import Foods (CSV / FoodData Central JSON)',
+  'import.noRows': 'No rows found.',
+  'import.defaultCategory': 'Default category',
+  'import.defaultBasis': 'Default basis',
+  'import.skipDuplicates': 'Skip duplicates',
+  'import.lineHeader': 'Line',
+  'import.duplicateOf': 'Duplicate of {name}',
+  'import.showing': 'Showing {shown} of {total} rows.',
+  'import.importCount': 'Import {count} of {total}',
+  meal: 'Meal',
+  'recipes.title': 'Recipes',
+  'recipes.summary': '{count} ingredients · {grams} g cooked',
+  'recipes.new': 'New recipe',
+  'recipes.ingredient': 'Ingredient',
+  'recipes.addIngredient': 'Add ingredient',
+  'recipes.cookedWeight': 'Cooked weight (g)',
+  'recipes.per100': 'Per 100 g',
+  'recipes.save': 'Save recipe',
+  'templates.title': 'Day Templates',
+  'templates.save': 'Save day as template',
+  'templates.rescale': 'Rescale grams to each day\'s target on apply',
+  'templates.summary': '{meals} meal(s) · {foods} food(s)',
+  'templates.dayN': 'Day {day}',
+  'templates.allDays': 'All {dayType} days',
+  'templates.name': 'Template name',
+  'profiles.title': 'Profiles',
+  'profiles.help': 'Each profile keeps its own settings, day plans, logs, language and custom food visibility. Custom foods and recipes are shared.',
+  'profiles.active': 'Active profile',
+  'profiles.new': 'New profile',
+  'profiles.clientName': 'Client name',
+  'profiles.duplicate': 'Duplicate',
+  'profiles.confirmDelete': 'Delete "{name}" and all its data?',
+  'profiles.yesDelete': 'Yes, delete',
+  'backup.title': 'Backup & Restore',
+  'backup.help': 'One JSON file with the active profile (settings, day plans, logs, language) plus custom foods and recipes. Restoring replaces the active profile\'s data and the shared foods.',
+  'backup.download': 'Download backup',
+  'backup.summary': '{days} day plans, {foods} custom foods, {recipes} recipes, {logged} logged days, {weights} weigh-ins',
+  'backup.restore': 'Restore',
+  'shopping.cycleTitle': '{days}-day cycle',
+  'shopping.wholeCycle': 'Whole cycle (each day once)',
+  'shopping.dateRange': 'Date range',
+  'shopping.plannedDays': '{count} planned day(s)',
+  'shopping.uncheckAll': 'Uncheck all',
+  'shopping.empty': 'No planned foods in this range.',
+  'shopping.days': '{count} day(s)',
+  'toast.cycleStartsOn': 'Cycle starts on {date}.',
+  'toast.autoGenerated': 'Auto-generated',
+  'toast.autoGeneratedBest': 'Auto-generated (best achievable)',
+  'toast.templateSaved': 'Template saved.',
+  'toast.templateApplied': 'Template applied to {count} day(s)',
+  'toast.customNameRequired': 'Custom food name required.',
+  'toast.customFoodSaved': 'Custom food saved.',
+  'toast.foodsImported': 'Imported {count} foods.',
+  'toast.recipeSaved': 'Recipe saved.',
+  'toast.profileCreated': 'Profile created',
+  'toast.profileDuplicated': 'Profile duplicated',
+  'toast.profileDeleted': 'Profile deleted',
+  'toast.backupRestored': 'Backup restored',
+  'profiles.copyName': '{name} copy',
+  'poster.dayTitle': 'Day {day} Plan',
+  'poster.cycleTitle': 'Cycle Summary',
+  'poster.targetsAndDeviations': 'Day Targets & Deviations',
+  'poster.macros': 'Macros',
+  'poster.cycleOverview': 'Cycle Overview',
+  'poster.legend': 'Bars: actual · Outline: target',
+  'poster.noFoods': 'No foods planned.',
+  'poster.page': '{page} / {total}',
+  'poster.pagesExported': '{count} images exported.',
+  posterTheme: 'Poster theme',
+  'posterTheme.light': 'Light',
+  'posterTheme.dark': 'Dark',
+  'pdf.export': 'Export PDF',
+  'pdf.title': 'Cycle Plan',
+  'pdf.profile': 'Profile',
+  'pdf.bodyFat': 'Body fat',
+  'pdf.cycleTotals': 'Cycle Totals',
+  'pdf.cycleEnergy': 'Energy over the cycle: {kcal} kcal',
+  'pdf.exported': 'PDF exported ({pages} pages).',
+  'planImport.title': 'Import Plans from XLSX/CSV',
+  'planImport.help': 'Reads the DailyPlan sheet of an exported workbook, or a CSV with its columns, after editing the grams. Days in the file replace those days; other days stay as they are.',
+  'planImport.missingColumns': 'Missing columns: {columns}.',
+  'planImport.badDay': 'Line {line}: day "{day}" is not between 1 and {max}.',
+  'planImport.unknownFood': 'Line {line}: unknown food "{food}".',
+  'planImport.badBasis': 'Line {line}: "{basis}" is not a basis of {food} (use {allowed}).',
+  'planImport.badGrams': 'Line {line}: "{grams}" is not a valid amount in grams.',
+  'planImport.summary': '{rows} rows read; {days} days will be replaced.',
+  'planImport.unknownFoods': 'Unknown foods: {foods}',
+  'planImport.recipeRows': '{count} rows come from expanded recipes and will be added as separate ingredients.',
+  'planImport.noChanges': 'No changes compared with the current plans.',
+  'planImport.before': 'Before (g)',
+  'planImport.after': 'After (g)',
+  'planImport.apply': 'Apply import',
+  'planImport.applied': 'Imported plans for {days} days.',
+  'ical.title': 'Calendar File (.ics)',
+  'ical.help': 'One all-day event per date with the day type and P/C/F targets, from the current cycle start ({date}). Meal events use a default time per meal type. Importing a newer file updates the same events instead of duplicating them.',
+  'ical.cycles': 'Cycles',
+  'ical.includeMeals': 'Add meal events',
+  'ical.export': 'Export .ics',
+  'ical.daySummary': 'D{day} {dayType} · P {p} / C {c} / F {f} g',
+  'ical.exported': '{count} calendar events exported.',
+  'share.title': 'Share Plan',
+  'share.help': 'Creates a link with this profile\'s settings and day plans, plus the custom foods and recipes they use, compressed into the part of the address after #. Nothing is uploaded; whoever opens the link can import it as a new profile.',
+  'share.create': 'Create link',
+  'share.copy': 'Copy link',
+  'share.copied': 'Link copied.',
+  'share.downloadQr': 'Download QR code',
+  'share.tooLongForQr': 'This link is too long for a QR code ({length} characters); share the link itself instead.',
+  'share.fixErrors': 'Fix the profile before sharing it: {errors}',
+  'share.incoming': 'Shared Plan',
+  'share.summary': 'This link holds a plan with {days} planned days, {foods} custom foods and {recipes} recipes.',
+  'share.importAsProfile': 'Import as new profile',
+  'share.dismiss': 'Dismiss',
+  'share.profileName': 'Shared plan',
+  'share.imported': 'Shared plan imported as a new profile.',
+  'share.corrupt': 'This share link is damaged or incomplete.',
+  'share.newer': 'This share link was made by a newer version of the app (format {version}). Update the app to open it.',
+  'share.unsupported': 'This share link uses an old format ({version}) that is no longer supported.',
+  'share.unavailable': 'This browser cannot create or open share links.',
+  'col.day': 'day',
+  'col.day_type': 'day_type',
+  'col.protein_target_g': 'protein_target_g',
+  'col.carb_target_g': 'carb_target_g',
+  'col.fat_target_g': 'fat_target_g',
+  'col.meal': 'meal',
+  'col.recipe': 'recipe',
+  'col.food_id': 'food_id',
+  'col.food_name': 'food_name',
+  'col.basis': 'basis',
+  'col.unit_amount': 'unit_amount',
+  'col.unit': 'unit',
+  'col.grams': 'grams',
+  'col.raw_equivalent_g': 'raw_equivalent_g',
+  'col.protein_g': 'protein_g',
+  'col.carb_g': 'carb_g',
+  'col.fat_g': 'fat_g',
+  'col.kcal': 'kcal',
+  'col.fiber_g': 'fiber_g',
+  'col.sugar_g': 'sugar_g',
+  'col.sat_fat_g': 'sat_fat_g',
+  'col.sodium_mg': 'sodium_mg',
+  'col.potassium_mg': 'potassium_mg',
+  'col.calcium_mg': 'calcium_mg',
+  'col.iron_mg': 'iron_mg',
+  'col.vitamin_c_mg': 'vitamin_c_mg',
+  'col.protein_actual_g': 'protein_actual_g',
+  'col.protein_diff_g': 'protein_diff_g',
+  'col.carb_actual_g': 'carb_actual_g',
+  'col.carb_diff_g': 'carb_diff_g',
+  'col.fat_actual_g': 'fat_actual_g',
+  'col.fat_diff_g': 'fat_diff_g',
+  'col.kcal_actual': 'kcal_actual',
+  'col.nutrient_warnings': 'nutrient_warnings',
+  'col.category': 'category',
+  'col.days': 'days',
+  'col.checked': 'checked'
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
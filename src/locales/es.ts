@@ -0,0 +1,394 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  appTitle: 'Planificador CarbCycler',
+  language: 'Idioma',
+  sex: 'Sexo',
+  weight: 'Peso (kg)',
+  bodyType: 'Tipo de cuerpo',
+  proteinPerKg: 'Proteína (g/kg)',
+  proteinBasis: 'Proteína basada en',
+  totalMass: 'Peso corporal total',
+  leanMass: 'Masa magra',
+  bodyTypeRules: 'Reglas por tipo de cuerpo (g/kg)',
+  addBodyType: 'Añadir tipo de cuerpo',
+  nutrientGoals: 'Objetivos diarios de nutrientes',
+  addNutrientGoal: 'Añadir objetivo',
+  targetMode: 'Modo de objetivos',
+  modePerKg: 'Por kg (tipo de cuerpo)',
+  modeEnergy: 'Energía (TMB/GET)',
+  age: 'Edad',
+  height: 'Altura (cm)',
+  bodyFat: '% de grasa corporal (opcional)',
+  carb: 'Carbohidratos',
+  fat: 'Grasa',
+  protein: 'Proteína',
+  activity: 'Nivel de actividad',
+  goal: 'Objetivo',
+  goalPct: 'Déficit / superávit (%)',
+  energyEstimate: 'Estimación de energía',
+  cycleDays: 'Días del ciclo',
+  customDays: 'Días personalizados',
+  cycleStart: 'Fecha de inicio del ciclo (D1)',
+  calendar: 'Calendario',
+  today: 'Hoy',
+  shopping: 'Lista de la compra',
+  shares: 'Reparto de macros',
+  dayCounts: 'Número de días (alto / medio / bajo)',
+  dayPlacement: 'Distribución de tipos de día (recuentos fijos)',
+  targets: 'Objetivos del ciclo',
+  planner: 'Planificador diario de comidas',
+  autoGenerate: 'Generar gramos automáticamente',
+  addCustomFood: 'Añadir alimento personalizado',
+  exportCsv: 'Exportar CSV',
+  exportXlsx: 'Exportar XLSX',
+  dayPoster: 'Exportar póster del día',
+  cyclePoster: 'Exportar póster del ciclo',
+  search: 'Buscar alimentos',
+  categories: 'Categorías',
+  deviation: 'Desviación',
+  saveImage: 'Guardar imagen',
+  undo: 'Deshacer',
+  redo: 'Rehacer',
+  remove: 'Quitar',
+  delete: 'Eliminar',
+  edit: 'Editar',
+  done: 'Listo',
+  cancel: 'Cancelar',
+  save: 'Guardar',
+  apply: 'Aplicar',
+  create: 'Crear',
+  confirm: 'Confirmar',
+  name: 'Nombre',
+  date: 'Fecha',
+  day: 'Día',
+  type: 'Tipo',
+  food: 'Alimento',
+  basis: 'Estado',
+  grams: 'g',
+  ok: 'OK',
+  imageExported: 'Imagen exportada.',
+  'tab.profile': 'Perfil',
+  'tab.plan': 'Plan',
+  'tab.calendar': 'Calendario',
+  'tab.foods': 'Alimentos',
+  'tab.shopping': 'Compra',
+  'tab.log': 'Registro',
+  'tab.weight': 'Peso',
+  mainSections: 'Secciones principales',
+  'cat.all': 'Todos',
+  'cat.protein': 'Proteína',
+  'cat.carb': 'Carbohidratos',
+  'cat.fat': 'Grasa',
+  'cat.veg': 'Verdura',
+  'cat.fruit': 'Fruta',
+  'cat.dairy': 'Lácteos',
+  'cat.other': 'Otros',
+  'dayType.High': 'Alto',
+  'dayType.Medium': 'Medio',
+  'dayType.Low': 'Bajo',
+  'basis.raw': 'crudo',
+  'basis.cooked': 'cocinado',
+  'basis.fresh': 'fresco',
+  'intensity.rest': 'descanso',
+  'intensity.light': 'ligero',
+  'intensity.moderate': 'moderado',
+  'intensity.hard': 'intenso',
+  'weekday.0': 'lun',
+  'weekday.1': 'mar',
+  'weekday.2': 'mié',
+  'weekday.3': 'jue',
+  'weekday.4': 'vie',
+  'weekday.5': 'sáb',
+  'weekday.6': 'dom',
+  'sex.Female': 'Mujer',
+  'sex.Male': 'Hombre',
+  'sex.Other': 'Otro',
+  'goal.cut': 'Definición',
+  'goal.maintain': 'Mantenimiento',
+  'goal.bulk': 'Volumen',
+  'activity.sedentary': 'Sedentario',
+  'activity.light': 'Ligero',
+  'activity.moderate': 'Moderado',
+  'activity.veryActive': 'Muy activo',
+  'activity.athlete': 'Atleta',
+  'meal.allDay': 'Todo el día',
+  'meal.breakfast': 'Desayuno',
+  'meal.lunch': 'Almuerzo',
+  'meal.dinner': 'Cena',
+  'meal.snack': 'Tentempié',
+  'meal.preWorkout': 'Antes de entrenar',
+  'meal.postWorkout': 'Después de entrenar',
+  'nutrient.fiber': 'Fibra',
+  'nutrient.sugar': 'Azúcar',
+  'nutrient.satFat': 'Grasa sat.',
+  'nutrient.sodium': 'Sodio',
+  'nutrient.potassium': 'Potasio',
+  'nutrient.calcium': 'Calcio',
+  'nutrient.iron': 'Hierro',
+  'nutrient.vitaminC': 'Vitamina C',
+  'goalKind.min': 'mín.',
+  'goalKind.max': 'máx.',
+  'error.dayCountsSum': 'La suma de días debe ser igual a los días del ciclo.',
+  'error.carbSharesSum': 'El reparto de carbohidratos debe sumar 1,0.',
+  'error.fatSharesSum': 'El reparto de grasa debe sumar 1,0.',
+  'error.proteinExceedsEnergy': 'Solo la proteína ya supera el objetivo calórico diario.',
+  'error.placementCounts': 'La distribución debe mantener el número de días altos/medios/bajos.',
+  'warning.nutrientBelow': '{nutrient} {actual} {unit} está por debajo del mínimo de {goal} {unit}.',
+  'warning.nutrientAbove': '{nutrient} {actual} {unit} supera el máximo de {goal} {unit}.',
+  'warning.nutrientUnknown': 'Faltan datos de {nutrient} en algunos alimentos ({actual} {unit} conocidos), así que no se puede comprobar el objetivo de {goal} {unit}.',
+  'placement.swapped': '{day} ({weekday}, {intensity}) → {dayType}: movido para evitar días bajos consecutivos.',
+  'placement.high': '{day} ({weekday}, {intensity}) → {dayType}: entre las {high} sesiones más duras.',
+  'placement.low': '{day} ({weekday}, {intensity}) → {dayType}: entre los {low} días más ligeros.',
+  'placement.medium': '{day} ({weekday}, {intensity}) → {dayType}: entre las sesiones más duras y los días más ligeros.',
+  category: 'Categoría',
+  'import.nameEn': 'Nombre (EN)',
+  'import.nameZh': 'Nombre (ZH)',
+  'import.servingGrams': 'Valores por (g)',
+  'import.missingName': 'Falta el nombre.',
+  'import.unknownCategory': 'Categoría desconocida "{value}".',
+  'import.unknownBasis': 'Estado desconocido "{value}".',
+  'import.servingPositive': 'Los gramos por ración deben ser positivos.',
+  'import.missingField': 'Falta {field}.',
+  'import.invalidField': '{field} no válido: "{value}".',
+  'import.macrosExceed': 'Proteína + carbohidratos + grasa superan 100 g por cada 100 g.',
+  'import.line': 'línea {line}',
+  'backup.profileUnreadable': 'No se pudo leer el perfil y se ha restablecido.',
+  'backup.profileFieldsReset': 'Campos del perfil restablecidos: {fields}.',
+  'backup.profileEntriesDropped': 'Perfil {field}: se omitieron {count} entradas no válidas.',
+  'backup.listUnreadable': 'No se pudo leer: {label}. Se ha restablecido.',
+  'backup.listCorrupt': '{label}: se omitieron {count} entradas dañadas.',
+  'backup.dayPlans': 'Planes diarios',
+  'backup.templates': 'Plantillas de día',
+  'backup.intakeLog': 'Registro de ingesta',
+  'backup.customFoods': 'Alimentos personalizados',
+  'backup.recipes': 'Recetas',
+  'backup.weightEntries': 'Registros de peso',
+  'backup.hiddenFoods': 'Alimentos ocultos',
+  'backup.shoppingChecks': 'Marcas de la lista de la compra',
+  'backup.portions': 'Porciones de alimentos',
+  'backup.ingredients': 'Ingredientes de recetas',
+  'backup.notJson': 'El archivo no es un JSON válido.',
+  'backup.notBackup': 'El archivo no es una copia de seguridad de CarbCycler.',
+  'backup.newerVersion': 'La copia se creó con una versión más reciente (esquema {version}); actualiza la aplicación primero.',
+  weeklyTraining: 'Entrenamiento semanal',
+  autoPlace: 'Distribuir según el entrenamiento',
+  proteinTarget: 'Objetivo P',
+  carbTarget: 'Objetivo C',
+  fatTarget: 'Objetivo G',
+  nutrients: 'Nutrientes',
+  expandRecipes: 'Desglosar recetas',
+  custom: 'Personalizado',
+  energyTarget: 'Objetivo {kcal} kcal',
+  'bodyType.endo': 'Endomorfo',
+  'bodyType.meso': 'Mesomorfo',
+  'bodyType.ecto': 'Ectomorfo',
+  'weight.title': 'Peso corporal',
+  'weight.needTwo': 'Registra al menos dos pesajes para ver la tendencia.',
+  'weight.trendChart': 'Tendencia de peso',
+  'weight.log': 'Registrar peso',
+  'weight.trend': 'Tendencia',
+  'weight.planning': 'Peso de planificación {kg} kg',
+  'weight.useTrend': 'Recalcular los objetivos con el peso de tendencia al inicio de cada ciclo',
+  'weight.cycleStarted': 'El ciclo actual empezó el {date}; los ciclos anteriores conservan el peso con el que se planificaron.',
+  'log.title': 'Registro de ingesta',
+  'log.adherence': 'Cumplimiento',
+  'log.target': 'Objetivo P/C/G',
+  'log.eaten': 'Consumido',
+  'log.noTarget': 'No hay objetivo del ciclo para esta fecha.',
+  'log.planned': 'Planificado',
+  'log.nothingPlanned': 'No hay nada planificado para esta fecha.',
+  'log.confirmAll': 'Confirmar todo lo planificado',
+  'log.source': 'Origen',
+  'log.fromPlan': 'plan',
+  'log.offPlan': 'fuera del plan',
+  'log.searchOffPlan': 'Buscar alimento fuera del plan',
+  'log.addOffPlan': 'Añadir alimento fuera del plan',
+  'log.history': 'Historial',
+  'log.noHistory': 'Aún no hay días registrados.',
+  'foods.targets': 'Objetivos',
+  'foods.actual': 'Real',
+  'foods.mealTarget': 'Objetivo de {meal}',
+  'foods.mealActual': 'Real de {meal}',
+  'foods.bestAchievable': 'Lo mejor posible con estos alimentos. P/C/G sin cubrir:',
+  'foods.meals': 'Comidas',
+  'foods.mealName': 'Nombre de la comida',
+  'foods.removeMeal': 'Quitar comida',
+  'foods.splitWeight': 'Peso {macro}',
+  'foods.addMeal': 'Añadir comida',
+  'foods.selected': 'Alimentos seleccionados',
+  'foods.amount': 'Cantidad',
+  'foods.min': 'Mín.',
+  'foods.max': 'Máx.',
+  'foods.step': 'Paso',
+  'foods.lock': 'Fijar',
+  'foods.unit': 'Unidad',
+  'foods.rawEquivalent': '≈ {grams} g en crudo',
+  'foods.lockAmount': 'Fijar cantidad',
+  'foods.yieldPlaceholder': 'Rendimiento (g cocinados por g crudo)',
+  'foods.saveCustom': 'Guardar alimento personalizado',
+  'foods.customFood': 'Alimento personalizado',
+  'foods.bases': 'Estados',
+  'foods.yield': 'Rendimiento (cocinado/crudo)',
+  'foods.portions': 'Porciones (nombre=g)',
+  'foods.wholePortions': 'Porciones enteras',
+  'foods.shownInProfile': 'Visible en el perfil',
+  'foods.roundToPortions': 'Redondear a porciones enteras',
+  'foods.showInProfile': 'Mostrar en este perfil',
+  status: 'Estado',
+  'import.title': 'Importar alimentos (CSV / JSON de FoodData Central)',
+  'import.noRows': 'No se encontraron filas.',
+  'import.defaultCategory': 'Categoría predeterminada',
+  'import.defaultBasis': 'Estado predeterminado',
+  'import.skipDuplicates': 'Omitir duplicados',
+  'import.lineHeader': 'Línea',
+  'import.duplicateOf': 'Duplicado de {name}',
+  'import.showing': 'Mostrando {shown} de {total} filas.',
+  'import.importCount': 'Importar {count} de {total}',
+  meal: 'Comida',
+  'recipes.title': 'Recetas',
+  'recipes.summary': '{count} ingredientes · {grams} g cocinados',
+  'recipes.new': 'Nueva receta',
+  'recipes.ingredient': 'Ingrediente',
+  'recipes.addIngredient': 'Añadir ingrediente',
+  'recipes.cookedWeight': 'Peso cocinado (g)',
+  'recipes.per100': 'Por 100 g',
+  'recipes.save': 'Guardar receta',
+  'templates.title': 'Plantillas de día',
+  'templates.save': 'Guardar el día como plantilla',
+  'templates.rescale': 'Reajustar los gramos al objetivo de cada día al aplicar',
+  'templates.summary': '{meals} comida(s) · {foods} alimento(s)',
+  'templates.dayN': 'Día {day}',
+  'templates.allDays': 'Todos los días {dayType}',
+  'templates.name': 'Nombre de la plantilla',
+  'profiles.title': 'Perfiles',
+  'profiles.help': 'Cada perfil guarda sus propios ajustes, planes diarios, registros, idioma y visibilidad de alimentos personalizados. Los alimentos personalizados y las recetas se comparten.',
+  'profiles.active': 'Perfil activo',
+  'profiles.new': 'Nuevo perfil',
+  'profiles.clientName': 'Nombre del cliente',
+  'profiles.duplicate': 'Duplicar',
+  'profiles.confirmDelete': '¿Eliminar "{name}" y todos sus datos?',
+  'profiles.yesDelete': 'Sí, eliminar',
+  'backup.title': 'Copia de seguridad y restauración',
+  'backup.help': 'Un archivo JSON con el perfil activo (ajustes, planes diarios, registros, idioma) más los alimentos personalizados y las recetas. Restaurar sustituye los datos del perfil activo y los alimentos compartidos.',
+  'backup.download': 'Descargar copia de seguridad',
+  'backup.summary': '{days} planes diarios, {foods} alimentos personalizados, {recipes} recetas, {logged} días registrados, {weights} pesajes',
+  'backup.restore': 'Restaurar',
+  'shopping.cycleTitle': 'Ciclo de {days} días',
+  'shopping.wholeCycle': 'Ciclo completo (cada día una vez)',
+  'shopping.dateRange': 'Rango de fechas',
+  'shopping.plannedDays': '{count} día(s) planificado(s)',
+  'shopping.uncheckAll': 'Desmarcar todo',
+  'shopping.empty': 'No hay alimentos planificados en este rango.',
+  'shopping.days': '{count} día(s)',
+  'toast.cycleStartsOn': 'El ciclo empieza el {date}.',
+  'toast.autoGenerated': 'Generado automáticamente',
+  'toast.autoGeneratedBest': 'Generado automáticamente (lo mejor posible)',
+  'toast.templateSaved': 'Plantilla guardada.',
+  'toast.templateApplied': 'Plantilla aplicada a {count} día(s)',
+  'toast.customNameRequired': 'Indica el nombre del alimento.',
+  'toast.customFoodSaved': 'Alimento personalizado guardado.',
+  'toast.foodsImported': 'Se importaron {count} alimentos.',
+  'toast.recipeSaved': 'Receta guardada.',
+  'toast.profileCreated': 'Perfil creado',
+  'toast.profileDuplicated': 'Perfil duplicado',
+  'toast.profileDeleted': 'Perfil eliminado',
+  'toast.backupRestored': 'Copia de seguridad restaurada',
+  'profiles.copyName': 'Copia de {name}',
+  'poster.dayTitle': 'Plan del día {day}',
+  'poster.cycleTitle': 'Resumen del ciclo',
+  'poster.targetsAndDeviations': 'Objetivos y desviaciones por día',
+  'poster.macros': 'Macronutrientes',
+  'poster.cycleOverview': 'Vista general del ciclo',
+  'poster.legend': 'Barras: real · Contorno: objetivo',
+  'poster.noFoods': 'No hay alimentos planificados.',
+  'poster.page': '{page} / {total}',
+  'poster.pagesExported': 'Se exportaron {count} imágenes.',
+  posterTheme: 'Tema del póster',
+  'posterTheme.light': 'Claro',
+  'posterTheme.dark': 'Oscuro',
+  'pdf.export': 'Exportar PDF',
+  'pdf.title': 'Plan del ciclo',
+  'pdf.profile': 'Perfil',
+  'pdf.bodyFat': 'Grasa corporal',
+  'pdf.cycleTotals': 'Totales del ciclo',
+  'pdf.cycleEnergy': 'Energía en el ciclo: {kcal} kcal',
+  'pdf.exported': 'PDF exportado ({pages} páginas).',
+  'planImport.title': 'Importar planes desde XLSX/CSV',
+  'planImport.help': 'Lee la hoja DailyPlan de un libro exportado, o un CSV con sus columnas, tras editar los gramos. Los días del archivo sustituyen a esos días; los demás no cambian.',
+  'planImport.missingColumns': 'Faltan columnas: {columns}.',
+  'planImport.badDay': 'Línea {line}: el día "{day}" no está entre 1 y {max}.',
+  'planImport.unknownFood': 'Línea {line}: alimento desconocido "{food}".',
+  'planImport.badBasis': 'Línea {line}: "{basis}" no es un estado de {food} (use {allowed}).',
+  'planImport.badGrams': 'Línea {line}: "{grams}" no es una cantidad válida en gramos.',
+  'planImport.summary': 'Se leyeron {rows} filas; se sustituirán {days} días.',
+  'planImport.unknownFoods': 'Alimentos desconocidos: {foods}',
+  'planImport.recipeRows': '{count} filas provienen de recetas desglosadas y se añadirán como ingredientes separados.',
+  'planImport.noChanges': 'No hay cambios respecto a los planes actuales.',
+  'planImport.before': 'Antes (g)',
+  'planImport.after': 'Después (g)',
+  'planImport.apply': 'Aplicar importación',
+  'planImport.applied': 'Se importaron los planes de {days} días.',
+  'ical.title': 'Archivo de calendario (.ics)',
+  'ical.help': 'Un evento de día completo por fecha con el tipo de día y los objetivos P/C/G, desde el inicio del ciclo actual ({date}). Los eventos de comidas usan una hora predeterminada por tipo de comida. Importar un archivo más reciente actualiza los mismos eventos en lugar de duplicarlos.',
+  'ical.cycles': 'Ciclos',
+  'ical.includeMeals': 'Añadir eventos de comidas',
+  'ical.export': 'Exportar .ics',
+  'ical.daySummary': 'D{day} {dayType} · P {p} / C {c} / G {f} g',
+  'ical.exported': 'Se exportaron {count} eventos de calendario.',
+  'share.title': 'Compartir plan',
+  'share.help': 'Crea un enlace con los ajustes y planes diarios de este perfil, más los alimentos y recetas personalizados que usan, comprimidos en la parte de la dirección tras #. No se sube nada; quien abra el enlace puede importarlo como un perfil nuevo.',
+  'share.create': 'Crear enlace',
+  'share.copy': 'Copiar enlace',
+  'share.copied': 'Enlace copiado.',
+  'share.downloadQr': 'Descargar código QR',
+  'share.tooLongForQr': 'Este enlace es demasiado largo para un código QR ({length} caracteres); comparta el enlace directamente.',
+  'share.fixErrors': 'Corrija el perfil antes de compartirlo: {errors}',
+  'share.incoming': 'Plan compartido',
+  'share.summary': 'Este enlace contiene un plan con {days} días planificados, {foods} alimentos personalizados y {recipes} recetas.',
+  'share.importAsProfile': 'Importar como perfil nuevo',
+  'share.dismiss': 'Descartar',
+  'share.profileName': 'Plan compartido',
+  'share.imported': 'Plan compartido importado como perfil nuevo.',
+  'share.corrupt': 'Este enlace compartido está dañado o incompleto.',
+  'share.newer': 'Este enlace se creó con una versión más reciente de la app (formato {version}). Actualice la app para abrirlo.',
+  'share.unsupported': 'Este enlace usa un formato antiguo ({version}) que ya no es compatible.',
+  'share.unavailable': 'Este navegador no puede crear ni abrir enlaces compartidos.',
+  'col.day': 'dia',
+  'col.day_type': 'tipo_dia',
+  'col.protein_target_g': 'proteina_objetivo_g',
+  'col.carb_target_g': 'carbohidratos_objetivo_g',
+  'col.fat_target_g': 'grasa_objetivo_g',
+  'col.meal': 'comida',
+  'col.recipe': 'receta',
+  'col.food_id': 'id_alimento',
+  'col.food_name': 'nombre_alimento',
+  'col.basis': 'estado',
+  'col.unit_amount': 'cantidad_unidad',
+  'col.unit': 'unidad',
+  'col.grams': 'gramos',
+  'col.raw_equivalent_g': 'equivalente_crudo_g',
+  'col.protein_g': 'proteina_g',
+  'col.carb_g': 'carbohidratos_g',
+  'col.fat_g': 'grasa_g',
+  'col.kcal': 'kcal',
+  'col.fiber_g': 'fibra_g',
+  'col.sugar_g': 'azucar_g',
+  'col.sat_fat_g': 'grasa_saturada_g',
+  'col.sodium_mg': 'sodio_mg',
+  'col.potassium_mg': 'potasio_mg',
+  'col.calcium_mg': 'calcio_mg',
+  'col.iron_mg': 'hierro_mg',
+  'col.vitamin_c_mg': 'vitamina_c_mg',
+  'col.protein_actual_g': 'proteina_real_g',
+  'col.protein_diff_g': 'proteina_dif_g',
+  'col.carb_actual_g': 'carbohidratos_real_g',
+  'col.carb_diff_g': 'carbohidratos_dif_g',
+  'col.fat_actual_g': 'grasa_real_g',
+  'col.fat_diff_g': 'grasa_dif_g',
+  'col.kcal_actual': 'kcal_real',
+  'col.nutrient_warnings': 'avisos_nutrientes',
+  'col.category': 'categoria',
+  'col.days': 'dias',
+  'col.checked': 'marcado'
+};
@@ -0,0 +1,394 @@
+import type { Messages } from './en';
+
+export const ja: Messages = {
+  appTitle: 'カーボサイクル プランナー',
+  language: '言語',
+  sex: '性別',
+  weight: '体重 (kg)',
+  bodyType: '体型',
+  proteinPerKg: 'タンパク質 (g/kg)',
+  proteinBasis: 'タンパク質の基準',
+  totalMass: '総体重',
+  leanMass: '除脂肪体重',
+  bodyTypeRules: '体型ルール (g/kg)',
+  addBodyType: '体型を追加',
+  nutrientGoals: '1日の栄養素目標',
+  addNutrientGoal: '目標を追加',
+  targetMode: '目標モード',
+  modePerKg: '体重あたり (体型)',
+  modeEnergy: 'エネルギー (BMR/TDEE)',
+  age: '年齢',
+  height: '身長 (cm)',
+  bodyFat: '体脂肪率 % (任意)',
+  carb: '炭水化物',
+  fat: '脂質',
+  protein: 'タンパク質',
+  activity: '活動レベル',
+  goal: '目標',
+  goalPct: 'カロリー不足 / 余剰 (%)',
+  energyEstimate: 'エネルギー推定',
+  cycleDays: 'サイクル日数',
+  customDays: 'カスタム日数',
+  cycleStart: 'サイクル開始日 (D1)',
+  calendar: 'カレンダー',
+  today: '今日',
+  shopping: '買い物リスト',
+  shares: 'マクロ配分',
+  dayCounts: '日数 (高 / 中 / 低)',
+  dayPlacement: '日タイプの配置 (日数固定)',
+  targets: 'サイクル目標',
+  planner: '毎日の食事プランナー',
+  autoGenerate: 'グラムを自動生成',
+  addCustomFood: 'カスタム食品を追加',
+  exportCsv: 'CSV を書き出す',
+  exportXlsx: 'XLSX を書き出す',
+  dayPoster: '1日ポスターを書き出す',
+  cyclePoster: 'サイクルポスターを書き出す',
+  search: '食品を検索',
+  categories: 'カテゴリー',
+  deviation: '偏差',
+  saveImage: '画像を保存',
+  undo: '元に戻す',
+  redo: 'やり直す',
+  remove: '削除',
+  delete: '削除',
+  edit: '編集',
+  done: '完了',
+  cancel: 'キャンセル',
+  save: '保存',
+  apply: '適用',
+  create: '作成',
+  confirm: '確定',
+  name: '名前',
+  date: '日付',
+  day: '日',
+  type: 'タイプ',
+  food: '食品',
+  basis: '状態',
+  grams: 'g',
+  ok: 'OK',
+  imageExported: '画像を書き出しました。',
+  'tab.profile': 'プロフィール',
+  'tab.plan': 'プラン',
+  'tab.calendar': 'カレンダー',
+  'tab.foods': '食品',
+  'tab.shopping': '買い物',
+  'tab.log': '記録',
+  'tab.weight': '体重',
+  mainSections: 'メインセクション',
+  'cat.all': 'すべて',
+  'cat.protein': 'タンパク質',
+  'cat.carb': '炭水化物',
+  'cat.fat': '脂質',
+  'cat.veg': '野菜',
+  'cat.fruit': '果物',
+  'cat.dairy': '乳製品',
+  'cat.other': 'その他',
+  'dayType.High': '高',
+  'dayType.Medium': '中',
+  'dayType.Low': '低',
+  'basis.raw': '生',
+  'basis.cooked': '調理済み',
+  'basis.fresh': '生鮮',
+  'intensity.rest': '休養',
+  'intensity.light': '軽め',
+  'intensity.moderate': '中程度',
+  'intensity.hard': 'ハード',
+  'weekday.0': '月',
+  'weekday.1': '火',
+  'weekday.2': '水',
+  'weekday.3': '木',
+  'weekday.4': '金',
+  'weekday.5': '土',
+  'weekday.6': '日',
+  'sex.Female': '女性',
+  'sex.Male': '男性',
+  'sex.Other': 'その他',
+  'goal.cut': '減量',
+  'goal.maintain': '維持',
+  'goal.bulk': '増量',
+  'activity.sedentary': 'ほぼ座位',
+  'activity.light': '軽い活動',
+  'activity.moderate': '中程度の活動',
+  'activity.veryActive': '活発',
+  'activity.athlete': 'アスリート',
+  'meal.allDay': '終日',
+  'meal.breakfast': '朝食',
+  'meal.lunch': '昼食',
+  'meal.dinner': '夕食',
+  'meal.snack': '間食',
+  'meal.preWorkout': 'トレーニング前',
+  'meal.postWorkout': 'トレーニング後',
+  'nutrient.fiber': '食物繊維',
+  'nutrient.sugar': '糖質',
+  'nutrient.satFat': '飽和脂肪',
+  'nutrient.sodium': 'ナトリウム',
+  'nutrient.potassium': 'カリウム',
+  'nutrient.calcium': 'カルシウム',
+  'nutrient.iron': '鉄',
+  'nutrient.vitaminC': 'ビタミン C',
+  'goalKind.min': '最小',
+  'goalKind.max': '最大',
+  'error.dayCountsSum': '日数の合計はサイクル日数と一致する必要があります。',
+  'error.carbSharesSum': '炭水化物の配分の合計は 1.0 である必要があります。',
+  'error.fatSharesSum': '脂質の配分の合計は 1.0 である必要があります。',
+  'error.proteinExceedsEnergy': 'タンパク質だけで1日のカロリー目標を超えています。',
+  'error.placementCounts': '日の配置は高・中・低の日数を維持する必要があります。',
+  'warning.nutrientBelow': '{nutrient} {actual} {unit} は最小 {goal} {unit} を下回っています。',
+  'warning.nutrientAbove': '{nutrient} {actual} {unit} は最大 {goal} {unit} を上回っています。',
+  'warning.nutrientUnknown': '一部の食品に{nutrient}のデータがないため（判明分 {actual} {unit}）、{goal} {unit} の目標を確認できません。',
+  'placement.swapped': '{day}（{weekday}、{intensity}）→ {dayType}：低の日が連続しないよう移動しました。',
+  'placement.high': '{day}（{weekday}、{intensity}）→ {dayType}：最もハードな {high} 回のセッションの一つです。',
+  'placement.low': '{day}（{weekday}、{intensity}）→ {dayType}：最も軽い {low} 日の一つです。',
+  'placement.medium': '{day}（{weekday}、{intensity}）→ {dayType}：ハードなセッションと軽い日の中間です。',
+  category: 'カテゴリー',
+  'import.nameEn': '名前 (英語)',
+  'import.nameZh': '名前 (中国語)',
+  'import.servingGrams': '値の基準量 (g)',
+  'import.missingName': '名前がありません。',
+  'import.unknownCategory': '不明なカテゴリー「{value}」。',
+  'import.unknownBasis': '不明な状態「{value}」。',
+  'import.servingPositive': '基準量のグラムは正の数である必要があります。',
+  'import.missingField': '{field} がありません。',
+  'import.invalidField': '{field} が無効です:「{value}」。',
+  'import.macrosExceed': 'タンパク質 + 炭水化物 + 脂質が 100 g あたり 100 g を超えています。',
+  'import.line': '{line} 行目',
+  'backup.profileUnreadable': 'プロフィールを読み込めなかったためリセットしました。',
+  'backup.profileFieldsReset': '既定値に戻したプロフィール項目: {fields}。',
+  'backup.profileEntriesDropped': 'プロフィール {field}：無効な項目 {count} 件をスキップしました。',
+  'backup.listUnreadable': '{label}を読み込めなかったためリセットしました。',
+  'backup.listCorrupt': '{label}: 破損した {count} 件をスキップしました。',
+  'backup.dayPlans': '日別プラン',
+  'backup.templates': '日テンプレート',
+  'backup.intakeLog': '摂取記録',
+  'backup.customFoods': 'カスタム食品',
+  'backup.recipes': 'レシピ',
+  'backup.weightEntries': '体重記録',
+  'backup.hiddenFoods': '非表示の食品',
+  'backup.shoppingChecks': '買い物リストのチェック',
+  'backup.portions': '食品の分量',
+  'backup.ingredients': 'レシピの材料',
+  'backup.notJson': 'ファイルが有効な JSON ではありません。',
+  'backup.notBackup': 'このファイルは CarbCycler のバックアップではありません。',
+  'backup.newerVersion': 'このバックアップは新しいバージョン (スキーマ {version}) で作成されました。先にアプリを更新してください。',
+  weeklyTraining: '週間トレーニング',
+  autoPlace: 'トレーニングから自動配置',
+  proteinTarget: 'P 目標',
+  carbTarget: 'C 目標',
+  fatTarget: 'F 目標',
+  nutrients: '栄養素',
+  expandRecipes: 'レシピを展開',
+  custom: 'カスタム',
+  energyTarget: '目標 {kcal} kcal',
+  'bodyType.endo': '内胚葉型',
+  'bodyType.meso': '中胚葉型',
+  'bodyType.ecto': '外胚葉型',
+  'weight.title': '体重',
+  'weight.needTwo': '傾向を表示するには2回以上記録してください。',
+  'weight.trendChart': '体重の傾向',
+  'weight.log': '体重を記録',
+  'weight.trend': '傾向',
+  'weight.planning': '計画体重 {kg} kg',
+  'weight.useTrend': '新しいサイクルの開始時に傾向体重から目標を再計算する',
+  'weight.cycleStarted': '現在のサイクルは {date} に開始しました。以前のサイクルは計画時の体重を保持します。',
+  'log.title': '摂取記録',
+  'log.adherence': '達成度',
+  'log.target': 'P/C/F 目標',
+  'log.eaten': '摂取済み',
+  'log.noTarget': 'この日付のサイクル目標はありません。',
+  'log.planned': '予定',
+  'log.nothingPlanned': 'この日付の予定はありません。',
+  'log.confirmAll': '予定をすべて確定',
+  'log.source': '出所',
+  'log.fromPlan': '予定',
+  'log.offPlan': '予定外',
+  'log.searchOffPlan': '予定外の食品を検索',
+  'log.addOffPlan': '予定外の食品を追加',
+  'log.history': '履歴',
+  'log.noHistory': '記録された日はまだありません。',
+  'foods.targets': '目標',
+  'foods.actual': '実績',
+  'foods.mealTarget': '{meal}の目標',
+  'foods.mealActual': '{meal}の実績',
+  'foods.bestAchievable': 'これらの食品で達成できる最善の結果です。未達の P/C/F:',
+  'foods.meals': '食事',
+  'foods.mealName': '食事名',
+  'foods.removeMeal': '食事を削除',
+  'foods.splitWeight': '{macro} の比重',
+  'foods.addMeal': '食事を追加',
+  'foods.selected': '選択した食品',
+  'foods.amount': '量',
+  'foods.min': '最小',
+  'foods.max': '最大',
+  'foods.step': '刻み',
+  'foods.lock': '固定',
+  'foods.unit': '単位',
+  'foods.rawEquivalent': '≈ 生 {grams} g',
+  'foods.lockAmount': '量を固定',
+  'foods.yieldPlaceholder': '歩留まり (生 1 g あたりの調理後 g)',
+  'foods.saveCustom': 'カスタム食品を保存',
+  'foods.customFood': 'カスタム食品',
+  'foods.bases': '状態',
+  'foods.yield': '歩留まり (調理後/生)',
+  'foods.portions': '単位量 (名前=g)',
+  'foods.wholePortions': '単位量で丸める',
+  'foods.shownInProfile': 'プロフィールで表示',
+  'foods.roundToPortions': '単位量単位で丸める',
+  'foods.showInProfile': 'このプロフィールで表示',
+  status: 'ステータス',
+  'import.title': '食品をインポート (CSV / FoodData Central JSON)',
+  'import.noRows': '行が見つかりません。',
+  'import.defaultCategory': '既定のカテゴリー',
+  'import.defaultBasis': '既定の状態',
+  'import.skipDuplicates': '重複をスキップ',
+  'import.lineHeader': '行',
+  'import.duplicateOf': '{name} と重複',
+  'import.showing': '{total} 行中 {shown} 行を表示しています。',
+  'import.importCount': '{total} 件中 {count} 件をインポート',
+  meal: '食事',
+  'recipes.title': 'レシピ',
+  'recipes.summary': '材料 {count} 品 · 調理後 {grams} g',
+  'recipes.new': '新しいレシピ',
+  'recipes.ingredient': '材料',
+  'recipes.addIngredient': '材料を追加',
+  'recipes.cookedWeight': '調理後の重さ (g)',
+  'recipes.per100': '100 g あたり',
+  'recipes.save': 'レシピを保存',
+  'templates.title': '日テンプレート',
+  'templates.save': 'この日をテンプレートとして保存',
+  'templates.rescale': '適用時に各日の目標に合わせてグラムを再計算',
+  'templates.summary': '食事 {meals} 件 · 食品 {foods} 件',
+  'templates.dayN': '{day} 日目',
+  'templates.allDays': 'すべての{dayType}の日',
+  'templates.name': 'テンプレート名',
+  'profiles.title': 'プロフィール',
+  'profiles.help': 'プロフィールごとに設定、日別プラン、記録、言語、カスタム食品の表示を保持します。カスタム食品とレシピは共有されます。',
+  'profiles.active': '使用中のプロフィール',
+  'profiles.new': '新しいプロフィール',
+  'profiles.clientName': 'クライアント名',
+  'profiles.duplicate': '複製',
+  'profiles.confirmDelete': '「{name}」とそのすべてのデータを削除しますか?',
+  'profiles.yesDelete': '削除する',
+  'backup.title': 'バックアップと復元',
+  'backup.help': '使用中のプロフィール (設定、日別プラン、記録、言語) とカスタム食品・レシピを 1 つの JSON ファイルにまとめます。復元すると、使用中のプロフィールのデータと共有食品が置き換えられます。',
+  'backup.download': 'バックアップをダウンロード',
+  'backup.summary': '日別プラン {days} 件、カスタム食品 {foods} 件、レシピ {recipes} 件、記録日 {logged} 日、体重記録 {weights} 件',
+  'backup.restore': '復元',
+  'shopping.cycleTitle': '{days} 日サイクル',
+  'shopping.wholeCycle': 'サイクル全体 (各日 1 回)',
+  'shopping.dateRange': '期間',
+  'shopping.plannedDays': '予定日 {count} 日',
+  'shopping.uncheckAll': 'すべてのチェックを外す',
+  'shopping.empty': 'この期間に予定された食品はありません。',
+  'shopping.days': '{count} 日',
+  'toast.cycleStartsOn': 'サイクルは {date} に始まります。',
+  'toast.autoGenerated': '自動生成しました',
+  'toast.autoGeneratedBest': '自動生成しました (達成可能な最善)',
+  'toast.templateSaved': 'テンプレートを保存しました。',
+  'toast.templateApplied': 'テンプレートを {count} 日に適用しました',
+  'toast.customNameRequired': '食品名を入力してください。',
+  'toast.customFoodSaved': 'カスタム食品を保存しました。',
+  'toast.foodsImported': '{count} 件の食品をインポートしました。',
+  'toast.recipeSaved': 'レシピを保存しました。',
+  'toast.profileCreated': 'プロフィールを作成しました',
+  'toast.profileDuplicated': 'プロフィールを複製しました',
+  'toast.profileDeleted': 'プロフィールを削除しました',
+  'toast.backupRestored': 'バックアップを復元しました',
+  'profiles.copyName': '{name} のコピー',
+  'poster.dayTitle': '{day} 日目のプラン',
+  'poster.cycleTitle': 'サイクルの概要',
+  'poster.targetsAndDeviations': '日ごとの目標と偏差',
+  'poster.macros': '主要栄養素',
+  'poster.cycleOverview': 'サイクル全体',
+  'poster.legend': '棒：実績 · 枠：目標',
+  'poster.noFoods': '食品が計画されていません。',
+  'poster.page': '{page} / {total}',
+  'poster.pagesExported': '{count} 枚の画像を書き出しました。',
+  posterTheme: 'ポスターのテーマ',
+  'posterTheme.light': 'ライト',
+  'posterTheme.dark': 'ダーク',
+  'pdf.export': 'PDF を書き出す',
+  'pdf.title': 'サイクルプラン',
+  'pdf.profile': 'プロフィール',
+  'pdf.bodyFat': '体脂肪率',
+  'pdf.cycleTotals': 'サイクル合計',
+  'pdf.cycleEnergy': 'サイクル全体のエネルギー：{kcal} kcal',
+  'pdf.exported': 'PDF を書き出しました（{pages} ページ）。',
+  'planImport.title': 'XLSX/CSV からプランを読み込む',
+  'planImport.help': '書き出したブックの DailyPlan シート（または同じ列の CSV）を読み込み、編集したグラム数を取り込みます。ファイルにある日は置き換えられ、それ以外の日はそのままです。',
+  'planImport.missingColumns': '列がありません：{columns}。',
+  'planImport.badDay': '{line} 行目：日 "{day}" が 1〜{max} の範囲外です。',
+  'planImport.unknownFood': '{line} 行目：不明な食品 "{food}"。',
+  'planImport.badBasis': '{line} 行目："{basis}" は {food} の状態ではありません（使用可：{allowed}）。',
+  'planImport.badGrams': '{line} 行目："{grams}" は有効なグラム数ではありません。',
+  'planImport.summary': '{rows} 行を読み込みました。{days} 日分が置き換えられます。',
+  'planImport.unknownFoods': '不明な食品：{foods}',
+  'planImport.recipeRows': '{count} 行は展開されたレシピのもので、個別の材料として追加されます。',
+  'planImport.noChanges': '現在のプランとの違いはありません。',
+  'planImport.before': '変更前 (g)',
+  'planImport.after': '変更後 (g)',
+  'planImport.apply': '読み込みを適用',
+  'planImport.applied': '{days} 日分のプランを読み込みました。',
+  'ical.title': 'カレンダーファイル (.ics)',
+  'ical.help': '現在のサイクル開始日（{date}）から、日付ごとに日タイプと P/C/F 目標の終日イベントを作成します。食事イベントは食事の種類ごとの既定時刻を使います。新しいファイルを読み込むと、重複せずに同じイベントが更新されます。',
+  'ical.cycles': 'サイクル数',
+  'ical.includeMeals': '食事イベントを追加',
+  'ical.export': '.ics を書き出す',
+  'ical.daySummary': 'D{day} {dayType} · P {p} / C {c} / F {f} g',
+  'ical.exported': '{count} 件のカレンダーイベントを書き出しました。',
+  'share.title': 'プランを共有',
+  'share.help': 'このプロフィールの設定と日ごとのプラン、使用しているカスタム食品とレシピを、アドレスの # 以降に圧縮したリンクを作成します。何もアップロードされません。リンクを開いた人は新しいプロフィールとして読み込めます。',
+  'share.create': 'リンクを作成',
+  'share.copy': 'リンクをコピー',
+  'share.copied': 'リンクをコピーしました。',
+  'share.downloadQr': 'QR コードをダウンロード',
+  'share.tooLongForQr': 'このリンクは QR コードには長すぎます（{length} 文字）。リンクそのものを共有してください。',
+  'share.fixErrors': '共有する前にプロフィールを修正してください：{errors}',
+  'share.incoming': '共有されたプラン',
+  'share.summary': 'このリンクには、計画済み {days} 日、カスタム食品 {foods} 件、レシピ {recipes} 件のプランが含まれています。',
+  'share.importAsProfile': '新しいプロフィールとして読み込む',
+  'share.dismiss': '閉じる',
+  'share.profileName': '共有プラン',
+  'share.imported': '共有プランを新しいプロフィールとして読み込みました。',
+  'share.corrupt': 'この共有リンクは壊れているか不完全です。',
+  'share.newer': 'この共有リンクは新しいバージョンのアプリで作成されました（形式 {version}）。アプリを更新してから開いてください。',
+  'share.unsupported': 'この共有リンクは、サポートが終了した古い形式（{version}）です。',
+  'share.unavailable': 'このブラウザーでは共有リンクを作成・表示できません。',
+  'col.day': '日',
+  'col.day_type': '日タイプ',
+  'col.protein_target_g': 'タンパク質目標_g',
+  'col.carb_target_g': '炭水化物目標_g',
+  'col.fat_target_g': '脂質目標_g',
+  'col.meal': '食事',
+  'col.recipe': 'レシピ',
+  'col.food_id': '食品id',
+  'col.food_name': '食品名',
+  'col.basis': '状態',
+  'col.unit_amount': '単位量',
+  'col.unit': '単位',
+  'col.grams': 'グラム',
+  'col.raw_equivalent_g': '生換算_g',
+  'col.protein_g': 'タンパク質_g',
+  'col.carb_g': '炭水化物_g',
+  'col.fat_g': '脂質_g',
+  'col.kcal': 'kcal',
+  'col.fiber_g': '食物繊維_g',
+  'col.sugar_g': '糖質_g',
+  'col.sat_fat_g': '飽和脂肪_g',
+  'col.sodium_mg': 'ナトリウム_mg',
+  'col.potassium_mg': 'カリウム_mg',
+  'col.calcium_mg': 'カルシウム_mg',
+  'col.iron_mg': '鉄_mg',
+  'col.vitamin_c_mg': 'ビタミンC_mg',
+  'col.protein_actual_g': 'タンパク質実績_g',
+  'col.protein_diff_g': 'タンパク質差_g',
+  'col.carb_actual_g': '炭水化物実績_g',
+  'col.carb_diff_g': '炭水化物差_g',
+  'col.fat_actual_g': '脂質実績_g',
+  'col.fat_diff_g': '脂質差_g',
+  'col.kcal_actual': 'kcal実績',
+  'col.nutrient_warnings': '栄養素の警告',
+  'col.category': 'カテゴリー',
+  'col.days': '日数',
+  'col.checked': 'チェック済み'
+};
@@ -0,0 +1,394 @@
+import type { Messages } from './en';
+
+export const zh: Messages = {
+  appTitle: '碳循环计划器',
+  language: '语言',
+  sex: '性别',
+  weight: '体重 (kg)',
+  bodyType: '体型',
+  proteinPerKg: '蛋白 (g/kg)',
+  proteinBasis: '蛋白计算基准',
+  totalMass: '总体重',
+  leanMass: '瘦体重',
+  bodyTypeRules: '体型规则 (g/kg)',
+  addBodyType: '添加体型',
+  nutrientGoals: '每日营养素目标',
+  addNutrientGoal: '添加目标',
+  targetMode: '目标模式',
+  modePerKg: '按体重 (体型)',
+  modeEnergy: '能量 (BMR/TDEE)',
+  age: '年龄',
+  height: '身高 (cm)',
+  bodyFat: '体脂率 % (可选)',
+  carb: '碳水',
+  fat: '脂肪',
+  protein: '蛋白质',
+  activity: '活动水平',
+  goal: '目标',
+  goalPct: '热量缺口 / 盈余 (%)',
+  energyEstimate: '能量估算',
+  cycleDays: '周期天数',
+  customDays: '自定义天数',
+  cycleStart: '周期开始日期 (D1)',
+  calendar: '日历',
+  today: '今天',
+  shopping: '购物清单',
+  shares: '宏量分配',
+  dayCounts: '高中低碳天数',
+  dayPlacement: '逐日类型排布（天数固定）',
+  targets: '周期目标',
+  planner: '每日饮食计划',
+  autoGenerate: '自动生成克数',
+  addCustomFood: '添加自定义食物',
+  exportCsv: '导出 CSV',
+  exportXlsx: '导出 XLSX',
+  dayPoster: '导出当日海报',
+  cyclePoster: '导出周期海报',
+  search: '搜索食物',
+  categories: '分类',
+  deviation: '偏差',
+  saveImage: '保存图片',
+  undo: '撤销',
+  redo: '重做',
+  remove: '移除',
+  delete: '删除',
+  edit: '编辑',
+  done: '完成',
+  cancel: '取消',
+  save: '保存',
+  apply: '应用',
+  create: '创建',
+  confirm: '确认',
+  name: '名称',
+  date: '日期',
+  day: '天',
+  type: '类型',
+  food: '食物',
+  basis: '状态',
+  grams: '克',
+  ok: '正常',
+  imageExported: '图片已导出。',
+  'tab.profile': '档案',
+  'tab.plan': '计划',
+  'tab.calendar': '日历',
+  'tab.foods': '食物',
+  'tab.shopping': '购物',
+  'tab.log': '记录',
+  'tab.weight': '体重',
+  mainSections: '主要栏目',
+  'cat.all': '全部',
+  'cat.protein': '蛋白质',
+  'cat.carb': '碳水',
+  'cat.fat': '脂肪',
+  'cat.veg': '蔬菜',
+  'cat.fruit': '水果',
+  'cat.dairy': '乳制品',
+  'cat.other': '其他',
+  'dayType.High': '高碳',
+  'dayType.Medium': '中碳',
+  'dayType.Low': '低碳',
+  'basis.raw': '生',
+  'basis.cooked': '熟',
+  'basis.fresh': '鲜',
+  'intensity.rest': '休息',
+  'intensity.light': '轻度',
+  'intensity.moderate': '中等',
+  'intensity.hard': '高强度',
+  'weekday.0': '周一',
+  'weekday.1': '周二',
+  'weekday.2': '周三',
+  'weekday.3': '周四',
+  'weekday.4': '周五',
+  'weekday.5': '周六',
+  'weekday.6': '周日',
+  'sex.Female': '女',
+  'sex.Male': '男',
+  'sex.Other': '其他',
+  'goal.cut': '减脂',
+  'goal.maintain': '维持',
+  'goal.bulk': '增肌',
+  'activity.sedentary': '久坐',
+  'activity.light': '轻度活动',
+  'activity.moderate': '中度活动',
+  'activity.veryActive': '高度活动',
+  'activity.athlete': '运动员',
+  'meal.allDay': '全天',
+  'meal.breakfast': '早餐',
+  'meal.lunch': '午餐',
+  'meal.dinner': '晚餐',
+  'meal.snack': '加餐',
+  'meal.preWorkout': '练前餐',
+  'meal.postWorkout': '练后餐',
+  'nutrient.fiber': '膳食纤维',
+  'nutrient.sugar': '糖',
+  'nutrient.satFat': '饱和脂肪',
+  'nutrient.sodium': '钠',
+  'nutrient.potassium': '钾',
+  'nutrient.calcium': '钙',
+  'nutrient.iron': '铁',
+  'nutrient.vitaminC': '维生素 C',
+  'goalKind.min': '最少',
+  'goalKind.max': '最多',
+  'error.dayCountsSum': '高中低碳天数之和必须等于周期天数。',
+  'error.carbSharesSum': '碳水分配之和必须为 1.0。',
+  'error.fatSharesSum': '脂肪分配之和必须为 1.0。',
+  'error.proteinExceedsEnergy': '仅蛋白质就已超过每日热量目标。',
+  'error.placementCounts': '逐日排布必须保持高/中/低碳天数不变。',
+  'warning.nutrientBelow': '{nutrient} {actual} {unit} 低于最低 {goal} {unit}。',
+  'warning.nutrientAbove': '{nutrient} {actual} {unit} 高于最高 {goal} {unit}。',
+  'warning.nutrientUnknown': '部分食物缺少{nutrient}数据（已知 {actual} {unit}），无法检查 {goal} {unit} 的目标。',
+  'placement.swapped': '{day}（{weekday}，{intensity}）→ {dayType}：调整以避免连续低碳日。',
+  'placement.high': '{day}（{weekday}，{intensity}）→ {dayType}：属于强度最高的 {high} 次训练。',
+  'placement.low': '{day}（{weekday}，{intensity}）→ {dayType}：属于最轻松的 {low} 天。',
+  'placement.medium': '{day}（{weekday}，{intensity}）→ {dayType}：介于高强度训练日和最轻松的日子之间。',
+  category: '分类',
+  'import.nameEn': '名称 (英文)',
+  'import.nameZh': '名称 (中文)',
+  'import.servingGrams': '数值对应克数',
+  'import.missingName': '缺少名称。',
+  'import.unknownCategory': '未知分类“{value}”。',
+  'import.unknownBasis': '未知状态“{value}”。',
+  'import.servingPositive': '份量克数必须为正数。',
+  'import.missingField': '缺少 {field}。',
+  'import.invalidField': '{field} 无效：“{value}”。',
+  'import.macrosExceed': '蛋白质 + 碳水 + 脂肪超过每 100 克 100 克。',
+  'import.line': '第 {line} 行',
+  'backup.profileUnreadable': '档案无法读取，已重置。',
+  'backup.profileFieldsReset': '以下档案字段已重置为默认值：{fields}。',
+  'backup.profileEntriesDropped': '档案 {field}：跳过了 {count} 个无效条目。',
+  'backup.listUnreadable': '{label}无法读取，已重置。',
+  'backup.listCorrupt': '{label}：已跳过 {count} 条损坏记录。',
+  'backup.dayPlans': '每日计划',
+  'backup.templates': '每日模板',
+  'backup.intakeLog': '摄入记录',
+  'backup.customFoods': '自定义食物',
+  'backup.recipes': '食谱',
+  'backup.weightEntries': '体重记录',
+  'backup.hiddenFoods': '隐藏的食物',
+  'backup.shoppingChecks': '购物清单勾选',
+  'backup.portions': '食物份量',
+  'backup.ingredients': '食谱配料',
+  'backup.notJson': '该文件不是有效的 JSON。',
+  'backup.notBackup': '该文件不是 CarbCycler 备份。',
+  'backup.newerVersion': '该备份来自更新的版本（架构 {version}），请先更新应用。',
+  weeklyTraining: '每周训练',
+  autoPlace: '按训练自动排布',
+  proteinTarget: '蛋白目标',
+  carbTarget: '碳水目标',
+  fatTarget: '脂肪目标',
+  nutrients: '营养素',
+  expandRecipes: '展开食谱',
+  custom: '自定义',
+  energyTarget: '目标 {kcal} kcal',
+  'bodyType.endo': '内胚型',
+  'bodyType.meso': '中胚型',
+  'bodyType.ecto': '外胚型',
+  'weight.title': '体重',
+  'weight.needTwo': '至少记录两次体重才能显示趋势。',
+  'weight.trendChart': '体重趋势',
+  'weight.log': '记录体重',
+  'weight.trend': '趋势',
+  'weight.planning': '计划体重 {kg} kg',
+  'weight.useTrend': '每个新周期开始时按趋势体重重新计算目标',
+  'weight.cycleStarted': '当前周期始于 {date}；之前的周期保留其计划时的体重。',
+  'log.title': '摄入记录',
+  'log.adherence': '执行情况',
+  'log.target': '蛋白/碳水/脂肪目标',
+  'log.eaten': '已吃',
+  'log.noTarget': '该日期没有周期目标。',
+  'log.planned': '计划',
+  'log.nothingPlanned': '该日期没有计划。',
+  'log.confirmAll': '确认全部计划',
+  'log.source': '来源',
+  'log.fromPlan': '计划内',
+  'log.offPlan': '计划外',
+  'log.searchOffPlan': '搜索计划外食物',
+  'log.addOffPlan': '添加计划外食物',
+  'log.history': '历史',
+  'log.noHistory': '还没有记录的日期。',
+  'foods.targets': '目标',
+  'foods.actual': '实际',
+  'foods.mealTarget': '{meal}目标',
+  'foods.mealActual': '{meal}实际',
+  'foods.bestAchievable': '这些食物能达到的最佳结果。未满足的蛋白/碳水/脂肪：',
+  'foods.meals': '餐次',
+  'foods.mealName': '餐次名称',
+  'foods.removeMeal': '删除餐次',
+  'foods.splitWeight': '{macro} 权重',
+  'foods.addMeal': '添加餐次',
+  'foods.selected': '已选食物',
+  'foods.amount': '数量',
+  'foods.min': '最少',
+  'foods.max': '最多',
+  'foods.step': '步长',
+  'foods.lock': '锁定',
+  'foods.unit': '单位',
+  'foods.rawEquivalent': '≈ 生重 {grams} 克',
+  'foods.lockAmount': '锁定数量',
+  'foods.yieldPlaceholder': '熟生比（每克生重对应熟重）',
+  'foods.saveCustom': '保存自定义食物',
+  'foods.customFood': '自定义食物',
+  'foods.bases': '状态',
+  'foods.yield': '熟生比（熟/生）',
+  'foods.portions': '份量（名称=克）',
+  'foods.wholePortions': '整份',
+  'foods.shownInProfile': '在档案中显示',
+  'foods.roundToPortions': '按整份取整',
+  'foods.showInProfile': '在此档案中显示',
+  status: '状态',
+  'import.title': '导入食物（CSV / FoodData Central JSON）',
+  'import.noRows': '未找到数据行。',
+  'import.defaultCategory': '默认分类',
+  'import.defaultBasis': '默认状态',
+  'import.skipDuplicates': '跳过重复项',
+  'import.lineHeader': '行',
+  'import.duplicateOf': '与 {name} 重复',
+  'import.showing': '显示 {total} 行中的 {shown} 行。',
+  'import.importCount': '导入 {total} 项中的 {count} 项',
+  meal: '餐次',
+  'recipes.title': '食谱',
+  'recipes.summary': '{count} 种食材 · 熟重 {grams} 克',
+  'recipes.new': '新建食谱',
+  'recipes.ingredient': '食材',
+  'recipes.addIngredient': '添加食材',
+  'recipes.cookedWeight': '熟重（克）',
+  'recipes.per100': '每 100 克',
+  'recipes.save': '保存食谱',
+  'templates.title': '每日模板',
+  'templates.save': '将当天保存为模板',
+  'templates.rescale': '应用时按每天目标重新计算克数',
+  'templates.summary': '{meals} 餐 · {foods} 种食物',
+  'templates.dayN': '第 {day} 天',
+  'templates.allDays': '所有{dayType}日',
+  'templates.name': '模板名称',
+  'profiles.title': '档案',
+  'profiles.help': '每个档案有独立的设置、每日计划、记录、语言和自定义食物显示；自定义食物和食谱为共享。',
+  'profiles.active': '当前档案',
+  'profiles.new': '新档案',
+  'profiles.clientName': '客户名称',
+  'profiles.duplicate': '复制',
+  'profiles.confirmDelete': '删除“{name}”及其全部数据？',
+  'profiles.yesDelete': '确认删除',
+  'backup.title': '备份与恢复',
+  'backup.help': '一个 JSON 文件，包含当前档案（设置、每日计划、记录、语言）以及自定义食物和食谱。恢复会替换当前档案的数据和共享食物。',
+  'backup.download': '下载备份',
+  'backup.summary': '{days} 个每日计划、{foods} 个自定义食物、{recipes} 个食谱、{logged} 天记录、{weights} 次称重',
+  'backup.restore': '恢复',
+  'shopping.cycleTitle': '{days} 天周期',
+  'shopping.wholeCycle': '整个周期（每天一次）',
+  'shopping.dateRange': '日期范围',
+  'shopping.plannedDays': '{count} 个计划日',
+  'shopping.uncheckAll': '全部取消勾选',
+  'shopping.empty': '此范围内没有计划的食物。',
+  'shopping.days': '{count} 天',
+  'toast.cycleStartsOn': '周期从 {date} 开始。',
+  'toast.autoGenerated': '已自动生成',
+  'toast.autoGeneratedBest': '已自动生成（最佳可达）',
+  'toast.templateSaved': '已保存模板。',
+  'toast.templateApplied': '模板已应用到 {count} 天',
+  'toast.customNameRequired': '请填写食物名称。',
+  'toast.customFoodSaved': '已保存自定义食物。',
+  'toast.foodsImported': '已导入 {count} 种食物。',
+  'toast.recipeSaved': '已保存食谱。',
+  'toast.profileCreated': '已创建档案',
+  'toast.profileDuplicated': '已复制档案',
+  'toast.profileDeleted': '已删除档案',
+  'toast.backupRestored': '备份已恢复',
+  'profiles.copyName': '{name} 副本',
+  'poster.dayTitle': '第 {day} 天计划',
+  'poster.cycleTitle': '周期总结',
+  'poster.targetsAndDeviations': '每日目标与偏差',
+  'poster.macros': '宏量营养素',
+  'poster.cycleOverview': '周期概览',
+  'poster.legend': '柱：实际 · 框线：目标',
+  'poster.noFoods': '尚未安排食物。',
+  'poster.page': '{page} / {total}',
+  'poster.pagesExported': '已导出 {count} 张图片。',
+  posterTheme: '海报主题',
+  'posterTheme.light': '浅色',
+  'posterTheme.dark': '深色',
+  'pdf.export': '导出 PDF',
+  'pdf.title': '周期计划',
+  'pdf.profile': '个人资料',
+  'pdf.bodyFat': '体脂率',
+  'pdf.cycleTotals': '周期总量',
+  'pdf.cycleEnergy': '整个周期能量：{kcal} kcal',
+  'pdf.exported': 'PDF 已导出（{pages} 页）。',
+  'planImport.title': '从 XLSX/CSV 导入计划',
+  'planImport.help': '读取导出工作簿中的 DailyPlan 表（或相同列的 CSV），用于导入修改过的克数。文件中出现的天会被替换，其他天保持不变。',
+  'planImport.missingColumns': '缺少列：{columns}。',
+  'planImport.badDay': '第 {line} 行：天数 "{day}" 不在 1 到 {max} 之间。',
+  'planImport.unknownFood': '第 {line} 行：未知食物 "{food}"。',
+  'planImport.badBasis': '第 {line} 行："{basis}" 不是 {food} 的状态（可用：{allowed}）。',
+  'planImport.badGrams': '第 {line} 行："{grams}" 不是有效的克数。',
+  'planImport.summary': '读取 {rows} 行；将替换 {days} 天。',
+  'planImport.unknownFoods': '未知食物：{foods}',
+  'planImport.recipeRows': '{count} 行来自展开的食谱，将作为单独的食材导入。',
+  'planImport.noChanges': '与当前计划相比没有变化。',
+  'planImport.before': '之前 (g)',
+  'planImport.after': '之后 (g)',
+  'planImport.apply': '应用导入',
+  'planImport.applied': '已导入 {days} 天的计划。',
+  'ical.title': '日历文件 (.ics)',
+  'ical.help': '每个日期一个全天事件，包含日类型和蛋白/碳水/脂肪目标，从当前周期开始日（{date}）起。餐次事件按餐次类型使用默认时间。再次导入新文件会更新相同的事件，而不会重复。',
+  'ical.cycles': '周期数',
+  'ical.includeMeals': '添加餐次事件',
+  'ical.export': '导出 .ics',
+  'ical.daySummary': 'D{day} {dayType} · 蛋白 {p} / 碳水 {c} / 脂肪 {f} g',
+  'ical.exported': '已导出 {count} 个日历事件。',
+  'share.title': '分享计划',
+  'share.help': '生成一个链接，包含此档案的设置和每日计划，以及其中用到的自定义食物和食谱，压缩在网址 # 之后的部分。不会上传任何内容；打开链接的人可以将其导入为新档案。',
+  'share.create': '生成链接',
+  'share.copy': '复制链接',
+  'share.copied': '链接已复制。',
+  'share.downloadQr': '下载二维码',
+  'share.tooLongForQr': '此链接太长，无法生成二维码（{length} 个字符）；请直接分享链接。',
+  'share.fixErrors': '请先修正档案再分享：{errors}',
+  'share.incoming': '收到的分享计划',
+  'share.summary': '此链接包含一个计划：{days} 个已安排的天、{foods} 个自定义食物和 {recipes} 个食谱。',
+  'share.importAsProfile': '导入为新档案',
+  'share.dismiss': '忽略',
+  'share.profileName': '分享的计划',
+  'share.imported': '分享的计划已导入为新档案。',
+  'share.corrupt': '此分享链接已损坏或不完整。',
+  'share.newer': '此分享链接由较新版本的应用生成（格式 {version}）。请更新应用后再打开。',
+  'share.unsupported': '此分享链接使用的旧格式（{version}）已不再支持。',
+  'share.unavailable': '此浏览器无法生成或打开分享链接。',
+  'col.day': '天',
+  'col.day_type': '日类型',
+  'col.protein_target_g': '蛋白目标_g',
+  'col.carb_target_g': '碳水目标_g',
+  'col.fat_target_g': '脂肪目标_g',
+  'col.meal': '餐次',
+  'col.recipe': '食谱',
+  'col.food_id': '食物id',
+  'col.food_name': '食物名称',
+  'col.basis': '状态',
+  'col.unit_amount': '单位数量',
+  'col.unit': '单位',
+  'col.grams': '克',
+  'col.raw_equivalent_g': '生重当量_g',
+  'col.protein_g': '蛋白_g',
+  'col.carb_g': '碳水_g',
+  'col.fat_g': '脂肪_g',
+  'col.kcal': '千卡',
+  'col.fiber_g': '膳食纤维_g',
+  'col.sugar_g': '糖_g',
+  'col.sat_fat_g': '饱和脂肪_g',
+  'col.sodium_mg': '钠_mg',
+  'col.potassium_mg': '钾_mg',
+  'col.calcium_mg': '钙_mg',
+  'col.iron_mg': '铁_mg',
+  'col.vitamin_c_mg': '维生素C_mg',
+  'col.protein_actual_g': '蛋白实际_g',
+  'col.protein_diff_g': '蛋白差值_g',
+  'col.carb_actual_g': '碳水实际_g',
+  'col.carb_diff_g': '碳水差值_g',
+  'col.fat_actual_g': '脂肪实际_g',
+  'col.fat_diff_g': '脂肪差值_g',
+  'col.kcal_actual': '实际千卡',
+  'col.nutrient_warnings': '营养素警告',
+  'col.category': '分类',
+  'col.days': '天数',
+  'col.checked': '已勾选'
+};
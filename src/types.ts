@@ -1,19 +1,58 @@
-export type Language = 'en' | 'zh';
+export type Language = 'en' | 'zh' | 'ja' | 'es';
 
-export type BodyType = 'endo' | 'ecto';
+/** Id of a `BodyTypeRule`; 'endo', 'ecto' and 'meso' are the built-in presets. */
+export type BodyType = string;
+
+export interface BodyTypeRule {
+  id: BodyType;
+  name: string;
+  carbPerKg: number;
+  fatPerKg: number;
+  builtin?: boolean;
+}
+
+export type SessionIntensity = 'rest' | 'light' | 'moderate' | 'hard';
+
+export type ProteinBasis = 'total' | 'lean';
+
+export type TargetMode = 'perKg' | 'energy';
+
+export type Goal = 'cut' | 'maintain' | 'bulk';
 
 export type DayType = 'High' | 'Medium' | 'Low';
 
 export type Basis = 'raw' | 'cooked' | 'fresh';
 
+export type PosterTheme = 'light' | 'dark';
+
 export type Category = 'protein' | 'carb' | 'fat' | 'veg' | 'fruit' | 'dairy' | 'other';
 
-export interface FoodVariant {
+/** Optional per-100 g nutrients beyond kcal/P/C/F; grams for fiber/sugar/satFat, mg for the rest. */
+export type NutrientKey = 'fiber' | 'sugar' | 'satFat' | 'sodium' | 'potassium' | 'calcium' | 'iron' | 'vitaminC';
+
+export interface FoodVariant extends Partial<Record<NutrientKey, number>> {
   basis: Basis;
   kcal?: number;
   p: number;
   c: number;
   f: number;
+  /** Computed from the food's other variant through its yield; recomputed when the yield changes. */
+  derived?: boolean;
+}
+
+export interface NutrientGoal {
+  key: NutrientKey;
+  kind: 'min' | 'max';
+  value: number;
+}
+
+/** A named household measure, e.g. 1 egg or 1 slice. */
+export interface Portion {
+  name_en: string;
+  name_zh: string;
+  grams: number;
+  /** Only offered for entries on this basis; any basis when omitted. */
+  basis?: Basis;
 }
 
 export interface FoodItem {
@@ -23,14 +62,33 @@ export interface FoodItem {
   category: Category;
   emoji: string;
   variants: FoodVariant[];
+  /** Cooked grams produced by 1 g raw (e.g. ~2.8 for rice). */
+  yieldRatio?: number;
+  /** Set on foods derived from a recipe. */
+  recipeId?: string;
+  portions?: Portion[];
+  /** Eaten in whole portions; the solver rounds grams to the first matching portion. */
+  portionBased?: boolean;
+}
+
+export interface Recipe {
+  id: string;
+  name_en: string;
+  name_zh: string;
+  category: Category;
+  ingredients: DayFoodEntry[];
+  /** Weight of the finished dish; per-100 g values are derived from it. */
+  cookedWeightG: number;
 }
 
 export interface PlannerProfile {
   sex: string;
   weightKg: number;
   bodyType: BodyType;
+  bodyTypeRules: BodyTypeRule[];
   proteinPerKg: number;
-  ectoFatPerKg: number;
+  /** 'lean' applies proteinPerKg to lean body mass when body fat % is known. */
+  proteinBasis: ProteinBasis;
   cycleDays: number;
   nHigh: number;
   nMed: number;
@@ -38,6 +96,37 @@ export interface PlannerProfile {
   carbShares: Record<DayType, number>;
   fatShares: Record<DayType, number>;
   dayPlacement: DayType[];
+  /** Weekly training, Monday first. */
+  trainingSchedule: SessionIntensity[];
+  nutrientGoals: NutrientGoal[];
+  /** 'perKg' uses the body-type carb/fat g/kg rules; 'energy' fills calories from an estimated TDEE. */
+  targetMode: TargetMode;
+  ageYears: number;
+  heightCm: number;
+  /** Optional; enables Katch-McArdle. */
+  bodyFatPct?: number;
+  activityFactor: number;
+  goal: Goal;
+  /** Calorie deficit (cut) or surplus (bulk) as a percentage of TDEE. */
+  goalPct: number;
+  /** ISO date (YYYY-MM-DD) of D1 for the current cycle settings. */
+  cycleStartDate: string;
+  /** Earlier cycle settings, frozen so past dates keep their day types. */
+  cycleHistory?: CycleSegment[];
+  /** Recalculate targets from the trend weight at the start of each new cycle. */
+  useTrendWeight?: boolean;
+  /** Weight each cycle was planned with, keyed by the cycle's start date. */
+  cycleWeights?: Record<string, number>;
+  /** Colour scheme of exported posters and the shopping list image; light when unset. */
+  posterTheme?: PosterTheme;
+}
+
+export interface CycleSegment {
+  startDate: string;
+  /** Exclusive. */
+  endDate: string;
+  cycleDays: number;
+  dayPlacement: DayType[];
 }
 
 export interface DayTarget {
@@ -52,11 +141,67 @@ export interface DayFoodEntry {
   foodId: string;
   basis: Basis;
   grams: number;
+  /** Solver constraints; all optional and in grams. */
+  minGrams?: number;
+  maxGrams?: number;
+  stepGrams?: number;
+  /** Keep `grams` as-is when auto-generating. */
+  locked?: boolean;
+  /** Display/entry unit: 'g', 'oz', 'lb' or a portion name; `grams` stays canonical. */
+  unit?: string;
+}
+
+export type MealKind = 'allDay' | 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'preWorkout' | 'postWorkout';
+
+export type MacroSplit = { p: number; c: number; f: number };
+
+export interface Meal {
+  id: string;
+  kind: MealKind;
+  name: string;
+  /** Relative weight of this meal in each macro; normalised across the day's meals. */
+  split: MacroSplit;
+  entries: DayFoodEntry[];
+}
+
+export interface DayPlan {
+  meals: Meal[];
+}
+
+/** A reusable day plan; applying it copies the meals into a day. */
+export interface DayTemplate {
+  id: string;
+  name: string;
+  /** Day type the template was saved from; preselected when applying to all days of a type. */
+  dayType?: DayType;
+  meals: Meal[];
+}
+
+export interface WeightEntry {
+  date: string;
+  kg: number;
+}
+
+export interface IntakeEntry {
+  foodId: string;
+  basis: Basis;
+  grams: number;
+  /** Confirmed from the day plan rather than added off-plan. */
+  fromPlan: boolean;
+}
+
+export interface IntakeDay {
+  date: string;
+  /** Target snapshot taken when the date was first logged. */
+  target?: DayTarget;
+  entries: IntakeEntry[];
 }
 
-export interface DayTotals {
+export interface DayTotals extends Record<NutrientKey, number> {
   kcal: number;
   p: number;
   c: number;
   f: number;
+  /** Nutrients some counted food has no value for; their totals only cover the foods that do. */
+  incomplete: NutrientKey[];
 }
@@ -0,0 +1,425 @@
+import type {
+  BodyTypeRule,
+  Category,
+  CycleSegment,
+  DayFoodEntry,
+  DayPlan,
+  DayTemplate,
+  FoodItem,
+  FoodVariant,
+  IntakeDay,
+  Language,
+  Meal,
+  NutrientGoal,
+  PlannerProfile,
+  Portion,
+  Recipe,
+  WeightEntry
+} from '../types';
+import { isLanguage, t, type MessageKey, type MessageParams } from '../i18n';
+import { migrateBodyTypes, normalizePlacement } from './calc';
+import { migrateDayPlans } from './meals';
+import { NUTRIENT_KEYS } from './nutrients';
+import { CATEGORY_ORDER } from './shopping';
+
+/**
+ * Schema history:
+ * 1 — flat `DayFoodEntry[]` per day, a single `ectoFatPerKg` setting.
+ * 2 — day plans split into meals, editable body-type rules.
+ */
+export const SCHEMA_VERSION = 2;
+
+export const BACKUP_APP_ID = 'carbcycler';
+
+export interface AppData {
+  lang: Language;
+  profile: PlannerProfile;
+  dayPlans: Record<number, DayPlan>;
+  customFoods: FoodItem[];
+  recipes: Recipe[];
+  intakeLog: Record<string, IntakeDay>;
+  weightLog: WeightEntry[];
+  /** Custom foods this profile does not show in its food list. */
+  hiddenFoodIds: string[];
+  templates: DayTemplate[];
+  /** Shopping list items (`foodId:basis`) already bought. */
+  shoppingChecked: string[];
+}
+
+export interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  data: AppData;
+}
+
+export interface LoadResult {
+  data: AppData;
+  /** Human-readable notes about entries that were dropped or reset. */
+  issues: string[];
+}
+
+type Loose = Record<string, unknown>;
+
+/** Load issues collected in the UI language. */
+interface IssueLog {
+  lang: Language;
+  issues: string[];
+}
+
+function note(log: IssueLog, key: MessageKey, params?: MessageParams) {
+  log.issues.push(t(log.lang, key, params));
+}
+
+/** Upgrades data saved at version N to N + 1; keys are the version being upgraded from. */
+const MIGRATIONS: Record<number, (data: Loose) => Loose> = {
+  1: (data) => ({
+    ...data,
+    profile: isObject(data.profile) ? migrateBodyTypes(data.profile as unknown as PlannerProfile) : data.profile,
+    dayPlans: isObject(data.dayPlans) ? migrateDayPlans(data.dayPlans as Record<number, DayFoodEntry[] | DayPlan>) : data.dayPlans
+  })
+};
+
+function isObject(v: unknown): v is Loose {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function isString(v: unknown): v is string {
+  return typeof v === 'string';
+}
+
+/** Runs every migration from `fromVersion` up to the current schema. */
+export function migrateData(raw: Loose, fromVersion: number): Loose {
+  let data = raw;
+  for (let v = Math.max(1, fromVersion); v < SCHEMA_VERSION; v += 1) {
+    data = MIGRATIONS[v]?.(data) ?? data;
+  }
+  return data;
+}
+
+const BASES = ['raw', 'cooked', 'fresh'];
+const DAY_TYPES = ['High', 'Medium', 'Low'];
+const INTENSITIES = ['rest', 'light', 'moderate', 'hard'];
+const MAX_CYCLE_DAYS = 30;
+
+function isIsoDate(v: unknown): v is string {
+  return isString(v) && /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v));
+}
+
+function isCycleDays(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) >= 1 && (v as number) <= MAX_CYCLE_DAYS;
+}
+
+function isDayType(v: unknown): boolean {
+  return DAY_TYPES.includes(v as string);
+}
+
+function isBodyTypeRule(v: unknown): v is BodyTypeRule {
+  return isObject(v) && isString(v.id) && isString(v.name) && isNumber(v.carbPerKg) && v.carbPerKg >= 0 && isNumber(v.fatPerKg) && v.fatPerKg >= 0;
+}
+
+function isNutrientGoal(v: unknown): v is NutrientGoal {
+  return isObject(v) && NUTRIENT_KEYS.includes(v.key as NutrientGoal['key']) && (v.kind === 'min' || v.kind === 'max') && isNumber(v.value) && v.value >= 0;
+}
+
+function isCycleSegment(v: unknown): v is CycleSegment {
+  return (
+    isObject(v) &&
+    isIsoDate(v.startDate) &&
+    isIsoDate(v.endDate) &&
+    isCycleDays(v.cycleDays) &&
+    Array.isArray(v.dayPlacement) &&
+    v.dayPlacement.length === v.cycleDays &&
+    v.dayPlacement.every(isDayType)
+  );
+}
+
+function isShares(v: unknown): boolean {
+  return isObject(v) && DAY_TYPES.every((d) => isNumber(v[d]) && (v[d] as number) >= 0);
+}
+
+/** Checks on profile values beyond their type; a failing field is reset to its default or dropped. */
+const PROFILE_CHECKS: Partial<Record<keyof PlannerProfile, (v: unknown) => boolean>> = {
+  weightKg: (v) => isNumber(v) && v > 0,
+  proteinPerKg: (v) => isNumber(v) && v >= 0,
+  cycleDays: isCycleDays,
+  carbShares: isShares,
+  fatShares: isShares,
+  proteinBasis: (v) => v === 'total' || v === 'lean',
+  targetMode: (v) => v === 'perKg' || v === 'energy',
+  goal: (v) => v === 'cut' || v === 'maintain' || v === 'bulk',
+  ageYears: (v) => isNumber(v) && v > 0,
+  heightCm: (v) => isNumber(v) && v > 0,
+  activityFactor: (v) => isNumber(v) && v > 0,
+  goalPct: (v) => isNumber(v) && v >= 0 && v < 100,
+  cycleStartDate: isIsoDate,
+  bodyFatPct: (v) => isNumber(v) && v >= 0 && v < 100,
+  useTrendWeight: (v) => typeof v === 'boolean',
+  cycleWeights: (v) => isObject(v) && Object.values(v).every((kg) => isNumber(kg) && kg > 0),
+  posterTheme: (v) => v === 'light' || v === 'dark'
+};
+
+/** List fields whose bad entries are dropped one by one. */
+const PROFILE_LISTS: Partial<Record<keyof PlannerProfile, (v: unknown) => boolean>> = {
+  bodyTypeRules: isBodyTypeRule,
+  nutrientGoals: isNutrientGoal,
+  cycleHistory: isCycleSegment
+};
+
+function isEntry(v: unknown): v is DayFoodEntry {
+  return isObject(v) && isString(v.foodId) && BASES.includes(v.basis as string) && isNumber(v.grams) && v.grams >= 0;
+}
+
+function isVariant(v: unknown): v is FoodVariant {
+  return (
+    isObject(v) &&
+    BASES.includes(v.basis as string) &&
+    isNumber(v.p) &&
+    isNumber(v.c) &&
+    isNumber(v.f) &&
+    (v.kcal === undefined || isNumber(v.kcal)) &&
+    NUTRIENT_KEYS.every((k) => v[k] === undefined || isNumber(v[k]))
+  );
+}
+
+function isPortion(v: unknown): v is Portion {
+  return isObject(v) && isString(v.name_en) && isString(v.name_zh) && isNumber(v.grams) && v.grams > 0 && (v.basis === undefined || BASES.includes(v.basis as string));
+}
+
+/** Names and category every food and recipe needs for search, sorting and grouping. */
+function hasNames(v: Loose): boolean {
+  return isString(v.id) && isString(v.name_en) && isString(v.name_zh) && CATEGORY_ORDER.includes(v.category as Category);
+}
+
+function isFood(v: unknown): v is FoodItem {
+  return isObject(v) && hasNames(v) && Array.isArray(v.variants) && v.variants.length > 0 && v.variants.every(isVariant);
+}
+
+function isRecipe(v: unknown): v is Recipe {
+  return isObject(v) && hasNames(v) && Array.isArray(v.ingredients) && isNumber(v.cookedWeightG);
+}
+
+function isWeight(v: unknown): v is WeightEntry {
+  return isObject(v) && isIsoDate(v.date) && isNumber(v.kg) && v.kg > 0;
+}
+
+/** Foods with their bad portions dropped; a `portions` value that is not a list is removed. */
+function validateFoods(raw: unknown, log: IssueLog): FoodItem[] {
+  let dropped = 0;
+  const foods = validateList(raw, isFood, 'backup.customFoods', log).map((food) => {
+    if (food.portions === undefined) return food;
+    const list: unknown[] = Array.isArray(food.portions) ? food.portions : [food.portions];
+    const portions = list.filter(isPortion);
+    dropped += list.length - portions.length;
+    return { ...food, portions };
+  });
+  if (dropped) note(log, 'backup.listCorrupt', { count: dropped, label: t(log.lang, 'backup.portions') });
+  return foods;
+}
+
+/** Recipes with their bad ingredients dropped. */
+function validateRecipes(raw: unknown, log: IssueLog): Recipe[] {
+  let dropped = 0;
+  const recipes = validateList(raw, isRecipe, 'backup.recipes', log).map((recipe) => {
+    const ingredients = recipe.ingredients.filter(isEntry);
+    dropped += recipe.ingredients.length - ingredients.length;
+    return { ...recipe, ingredients };
+  });
+  if (dropped) note(log, 'backup.listCorrupt', { count: dropped, label: t(log.lang, 'backup.ingredients') });
+  return recipes;
+}
+
+/**
+ * Keeps profile fields whose type matches the default and whose value is in
+ * range; anything else falls back to the default (or is dropped when optional).
+ * Day counts, placement and training schedule are then made consistent with
+ * the cycle length, so the cycle math never sees an impossible profile.
+ */
+function validateProfile(raw: unknown, defaults: PlannerProfile, log: IssueLog): PlannerProfile {
+  if (!isObject(raw)) {
+    if (raw !== undefined) note(log, 'backup.profileUnreadable');
+    return defaults;
+  }
+  const base = defaults as unknown as Loose;
+  const out: Loose = { ...defaults };
+  const reset: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    const fallback = base[key];
+    const check = PROFILE_CHECKS[key as keyof PlannerProfile];
+    const list = PROFILE_LISTS[key as keyof PlannerProfile];
+    if (value === null && fallback === undefined) continue;
+    if (list) {
+      if (!Array.isArray(value)) {
+        reset.push(key);
+        continue;
+      }
+      const kept = value.filter(list);
+      if (kept.length < value.length) note(log, 'backup.profileEntriesDropped', { field: key, count: value.length - kept.length });
+      out[key] = kept;
+    } else if (check ? check(value) : fallback === undefined || (Array.isArray(fallback) ? Array.isArray(value) : typeof value === typeof fallback && (typeof value !== 'number' || isNumber(value)))) {
+      // Unknown optional fields have no default to compare with and are kept as they are.
+      out[key] = value;
+    } else {
+      reset.push(key);
+    }
+  }
+  const profile = out as unknown as PlannerProfile;
+
+  const counts = [profile.nHigh, profile.nMed, profile.nLow];
+  if (!counts.every((n) => Number.isInteger(n) && n >= 0) || counts[0] + counts[1] + counts[2] !== profile.cycleDays) {
+    // Same split as changing the cycle length in the UI: keep the defaults' High and Medium days where they fit.
+    profile.nHigh = Math.min(defaults.nHigh, profile.cycleDays);
+    profile.nMed = Math.min(defaults.nMed, profile.cycleDays - profile.nHigh);
+    profile.nLow = profile.cycleDays - profile.nHigh - profile.nMed;
+    reset.push('nHigh', 'nMed', 'nLow');
+  }
+  if (profile.dayPlacement.length !== profile.cycleDays || !profile.dayPlacement.every(isDayType)) {
+    profile.dayPlacement = normalizePlacement({ ...profile, dayPlacement: profile.dayPlacement.filter(isDayType) });
+    reset.push('dayPlacement');
+  }
+  if (profile.trainingSchedule.length !== 7 || !profile.trainingSchedule.every((s) => INTENSITIES.includes(s))) {
+    profile.trainingSchedule = [...defaults.trainingSchedule];
+    reset.push('trainingSchedule');
+  }
+  if (reset.length) note(log, 'backup.profileFieldsReset', { fields: [...new Set(reset)].join(', ') });
+  return profile;
+}
+
+function validateMeal(raw: unknown): { meal?: Meal; dropped: number } {
+  if (!isObject(raw) || !isString(raw.id) || !Array.isArray(raw.entries)) return { dropped: 1 };
+  const entries = raw.entries.filter(isEntry);
+  const split = isObject(raw.split) && isNumber(raw.split.p) && isNumber(raw.split.c) && isNumber(raw.split.f) ? raw.split : { p: 1, c: 1, f: 1 };
+  return {
+    meal: { ...(raw as unknown as Meal), name: isString(raw.name) ? raw.name : raw.id, split: split as Meal['split'], entries },
+    dropped: raw.entries.length - entries.length
+  };
+}
+
+function validateDayPlans(raw: unknown, log: IssueLog): Record<number, DayPlan> {
+  if (!isObject(raw)) {
+    if (raw !== undefined) note(log, 'backup.listUnreadable', { label: t(log.lang, 'backup.dayPlans') });
+    return {};
+  }
+  const out: Record<number, DayPlan> = {};
+  let dropped = 0;
+  for (const [day, plan] of Object.entries(raw)) {
+    if (!Number.isInteger(Number(day)) || !isObject(plan) || !Array.isArray(plan.meals)) {
+      dropped += 1;
+      continue;
+    }
+    const meals: Meal[] = [];
+    for (const m of plan.meals) {
+      const result = validateMeal(m);
+      dropped += result.dropped;
+      if (result.meal) meals.push(result.meal);
+    }
+    if (meals.length) out[Number(day)] = { meals };
+  }
+  if (dropped) note(log, 'backup.listCorrupt', { count: dropped, label: t(log.lang, 'backup.dayPlans') });
+  return out;
+}
+
+function validateTemplates(raw: unknown, log: IssueLog): DayTemplate[] {
+  if (!Array.isArray(raw)) {
+    if (raw !== undefined) note(log, 'backup.listUnreadable', { label: t(log.lang, 'backup.templates') });
+    return [];
+  }
+  const out: DayTemplate[] = [];
+  let dropped = 0;
+  for (const tpl of raw) {
+    if (!isObject(tpl) || !isString(tpl.id) || !isString(tpl.name) || !Array.isArray(tpl.meals)) {
+      dropped += 1;
+      continue;
+    }
+    const meals: Meal[] = [];
+    for (const m of tpl.meals) {
+      const result = validateMeal(m);
+      dropped += result.dropped;
+      if (result.meal) meals.push(result.meal);
+    }
+    out.push({ ...(tpl as unknown as DayTemplate), meals });
+  }
+  if (dropped) note(log, 'backup.listCorrupt', { count: dropped, label: t(log.lang, 'backup.templates') });
+  return out;
+}
+
+function validateList<T>(raw: unknown, isValid: (v: unknown) => v is T, labelKey: MessageKey, log: IssueLog): T[] {
+  const label = t(log.lang, labelKey);
+  if (!Array.isArray(raw)) {
+    if (raw !== undefined) note(log, 'backup.listUnreadable', { label });
+    return [];
+  }
+  const out = raw.filter(isValid);
+  if (out.length < raw.length) note(log, 'backup.listCorrupt', { count: raw.length - out.length, label });
+  return out;
+}
+
+function validateIntakeLog(raw: unknown, log: IssueLog): Record<string, IntakeDay> {
+  if (!isObject(raw)) {
+    if (raw !== undefined) note(log, 'backup.listUnreadable', { label: t(log.lang, 'backup.intakeLog') });
+    return {};
+  }
+  const out: Record<string, IntakeDay> = {};
+  let dropped = 0;
+  for (const [date, day] of Object.entries(raw)) {
+    if (!isIsoDate(date) || !isObject(day) || !Array.isArray(day.entries)) {
+      dropped += 1;
+      continue;
+    }
+    const entries = day.entries.filter((e): e is IntakeDay['entries'][number] => isEntry(e));
+    dropped += day.entries.length - entries.length;
+    out[date] = { ...(day as unknown as IntakeDay), date, entries };
+  }
+  if (dropped) note(log, 'backup.listCorrupt', { count: dropped, label: t(log.lang, 'backup.intakeLog') });
+  return out;
+}
+
+/**
+ * Brings loosely-typed persisted data up to the current schema and drops
+ * whatever still does not fit, so a bad entry never reaches the UI.
+ */
+export function loadData(raw: Loose, fromVersion: number, defaults: AppData, lang: Language = 'en'): LoadResult {
+  const data = migrateData(raw, fromVersion);
+  const log: IssueLog = { lang, issues: [] };
+  return {
+    data: {
+      lang: isLanguage(data.lang) ? data.lang : defaults.lang,
+      profile: validateProfile(data.profile, defaults.profile, log),
+      dayPlans: validateDayPlans(data.dayPlans, log),
+      customFoods: validateFoods(data.customFoods, log),
+      recipes: validateRecipes(data.recipes, log),
+      intakeLog: validateIntakeLog(data.intakeLog, log),
+      weightLog: validateList(data.weightLog, isWeight, 'backup.weightEntries', log),
+      hiddenFoodIds: validateList(data.hiddenFoodIds, isString, 'backup.hiddenFoods', log),
+      templates: validateTemplates(data.templates, log),
+      shoppingChecked: validateList(data.shoppingChecked, isString, 'backup.shoppingChecks', log)
+    },
+    issues: log.issues
+  };
+}
+
+export function createBackup(data: AppData): BackupFile {
+  return { app: BACKUP_APP_ID, schemaVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString(), data };
+}
+
+/** Parses a backup file; throws with a readable message when it cannot be restored. */
+export function parseBackup(text: string, defaults: AppData, lang: Language = 'en'): LoadResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(t(lang, 'backup.notJson'));
+  }
+  if (!isObject(parsed) || parsed.app !== BACKUP_APP_ID || !isObject(parsed.data)) {
+    throw new Error(t(lang, 'backup.notBackup'));
+  }
+  const version = isNumber(parsed.schemaVersion) ? parsed.schemaVersion : 1;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(t(lang, 'backup.newerVersion', { version: String(version) }));
+  }
+  return loadData(parsed.data, version, defaults, lang);
+}
@@ -1,4 +1,5 @@
-import type { DayTarget, DayType, PlannerProfile } from '../types';
+import type { BodyTypeRule, DayTarget, DayType, Language, PlannerProfile } from '../types';
+import { t, type MessageKey } from '../i18n';
 
 export const DEFAULT_CARB_SHARES: Record<DayType, number> = {
   High: 0.5,
@@ -12,6 +13,20 @@ export const DEFAULT_FAT_SHARES: Record<DayType, number> = {
   Low: 0.5
 };
 
+export const DEFAULT_BODY_TYPE_RULES: BodyTypeRule[] = [
+  { id: 'endo', name: 'Endomorph', carbPerKg: 2.0, fatPerKg: 0.8, builtin: true },
+  { id: 'meso', name: 'Mesomorph', carbPerKg: 2.5, fatPerKg: 0.9, builtin: true },
+  { id: 'ecto', name: 'Ectomorph', carbPerKg: 3.0, fatPerKg: 1.0, builtin: true }
+];
+
+export const ACTIVITY_FACTORS: Array<{ value: number; label: MessageKey }> = [
+  { value: 1.2, label: 'activity.sedentary' },
+  { value: 1.375, label: 'activity.light' },
+  { value: 1.55, label: 'activity.moderate' },
+  { value: 1.725, label: 'activity.veryActive' },
+  { value: 1.9, label: 'activity.athlete' }
+];
+
 export function round2(n: number): number {
   return Math.round(n * 100) / 100;
 }
@@ -55,38 +70,115 @@ export function normalizePlacement(profile: PlannerProfile): DayType[] {
   return out;
 }
 
-export function validateProfile(profile: PlannerProfile): string[] {
+export function validateProfile(profile: PlannerProfile, lang: Language = 'en'): string[] {
   const errors: string[] = [];
   if (profile.nHigh + profile.nMed + profile.nLow !== profile.cycleDays) {
-    errors.push('Day counts must sum to cycle days.');
+    errors.push(t(lang, 'error.dayCountsSum'));
   }
   const carbShareSum = profile.carbShares.High + profile.carbShares.Medium + profile.carbShares.Low;
   const fatShareSum = profile.fatShares.High + profile.fatShares.Medium + profile.fatShares.Low;
-  if (Math.abs(carbShareSum - 1) > 1e-6) errors.push('Carb shares must sum to 1.0.');
-  if (Math.abs(fatShareSum - 1) > 1e-6) errors.push('Fat shares must sum to 1.0.');
+  if (Math.abs(carbShareSum - 1) > 1e-6) errors.push(t(lang, 'error.carbSharesSum'));
+  if (Math.abs(fatShareSum - 1) > 1e-6) errors.push(t(lang, 'error.fatSharesSum'));
   const pCounts = {
     High: profile.dayPlacement.filter((d) => d === 'High').length,
     Medium: profile.dayPlacement.filter((d) => d === 'Medium').length,
     Low: profile.dayPlacement.filter((d) => d === 'Low').length
   };
+  if (profile.targetMode === 'energy' && energyBudget(profile).remainingKcal < 0) {
+    errors.push(t(lang, 'error.proteinExceedsEnergy'));
+  }
   if (pCounts.High !== profile.nHigh || pCounts.Medium !== profile.nMed || pCounts.Low !== profile.nLow) {
-    errors.push('Day placement must keep fixed counts for High/Medium/Low.');
+    errors.push(t(lang, 'error.placementCounts'));
   }
   return errors;
 }
 
+export function bodyTypeRule(profile: PlannerProfile): BodyTypeRule {
+  return (
+    profile.bodyTypeRules.find((r) => r.id === profile.bodyType) ??
+    DEFAULT_BODY_TYPE_RULES.find((r) => r.id === profile.bodyType) ??
+    DEFAULT_BODY_TYPE_RULES[0]
+  );
+}
+
+/** Built-in rules are named in the UI language; custom ones keep the name they were given. */
+export function bodyTypeName(rule: BodyTypeRule, lang: Language): string {
+  return rule.builtin ? t(lang, `bodyType.${rule.id}` as MessageKey) : rule.name;
+}
+
+/**
+ * Profiles saved before the rule table had a fixed endo/ecto split with the
+ * ecto fat rate stored as `ectoFatPerKg`; carry that over into the presets.
+ */
+export function migrateBodyTypes(saved: PlannerProfile & { ectoFatPerKg?: number }): PlannerProfile {
+  const { ectoFatPerKg, ...profile } = saved;
+  if (saved.bodyTypeRules?.length) return profile;
+  const bodyTypeRules = DEFAULT_BODY_TYPE_RULES.map((r) =>
+    r.id === 'ecto' && ectoFatPerKg !== undefined ? { ...r, fatPerKg: ectoFatPerKg } : { ...r }
+  );
+  return { ...profile, bodyTypeRules };
+}
+
+/** Mass protein g/kg applies to: lean mass when requested and body fat is known. */
+export function proteinMassKg(profile: PlannerProfile): number {
+  if (profile.proteinBasis === 'lean' && profile.bodyFatPct && profile.bodyFatPct > 0) {
+    return profile.weightKg * (1 - profile.bodyFatPct / 100);
+  }
+  return profile.weightKg;
+}
+
+export interface EnergyEstimate {
+  formula: 'mifflin' | 'katch';
+  bmr: number;
+  tdee: number;
+  targetKcal: number;
+}
+
+/** Mifflin-St Jeor, or Katch-McArdle when body fat is known; goal applied as a % of TDEE. */
+export function estimateEnergy(profile: PlannerProfile): EnergyEstimate {
+  let bmr: number;
+  let formula: EnergyEstimate['formula'];
+  if (profile.bodyFatPct && profile.bodyFatPct > 0) {
+    const leanKg = profile.weightKg * (1 - profile.bodyFatPct / 100);
+    bmr = 370 + 21.6 * leanKg;
+    formula = 'katch';
+  } else {
+    const sexOffset = profile.sex === 'Male' ? 5 : profile.sex === 'Female' ? -161 : -78;
+    bmr = 10 * profile.weightKg + 6.25 * profile.heightCm - 5 * profile.ageYears + sexOffset;
+    formula = 'mifflin';
+  }
+  const tdee = bmr * profile.activityFactor;
+  const sign = profile.goal === 'cut' ? -1 : profile.goal === 'bulk' ? 1 : 0;
+  const targetKcal = tdee * (1 + (sign * profile.goalPct) / 100);
+  return { formula, bmr: round2(bmr), tdee: round2(tdee), targetKcal: round2(targetKcal) };
+}
+
+function energyBudget(profile: PlannerProfile) {
+  const pDay = proteinMassKg(profile) * profile.proteinPerKg;
+  const remainingKcal = estimateEnergy(profile).targetKcal - pDay * 4;
+  return { pDay, remainingKcal };
+}
+
 export function calculateCycle(profile: PlannerProfile): {
   dayTargets: DayTarget[];
   pDay: number;
   cTotal: number;
   fTotal: number;
 } {
-  const carbPerKg = profile.bodyType === 'endo' ? 2.0 : 3.0;
-  const fatPerKg = profile.bodyType === 'endo' ? 0.8 : profile.ectoFatPerKg;
+  const { carbPerKg, fatPerKg } = bodyTypeRule(profile);
 
-  const pDay = profile.weightKg * profile.proteinPerKg;
-  const cTotal = profile.weightKg * carbPerKg * profile.cycleDays;
-  const fTotal = profile.weightKg * fatPerKg * profile.cycleDays;
+  const pDay = proteinMassKg(profile) * profile.proteinPerKg;
+  let cTotal = profile.weightKg * carbPerKg * profile.cycleDays;
+  let fTotal = profile.weightKg * fatPerKg * profile.cycleDays;
+
+  if (profile.targetMode === 'energy') {
+    // Carbs and fat fill the calories left after protein, keeping the
+    // body-type carb:fat energy ratio; day shares then apply as usual.
+    const remaining = Math.max(0, energyBudget(profile).remainingKcal) * profile.cycleDays;
+    const carbKcalShare = (carbPerKg * 4) / (carbPerKg * 4 + fatPerKg * 9);
+    cTotal = (remaining * carbKcalShare) / 4;
+    fTotal = (remaining * (1 - carbKcalShare)) / 9;
+  }
 
   const perTypeC: Record<DayType, number> = {
     High: profile.nHigh > 0 ? (cTotal * profile.carbShares.High) / profile.nHigh : 0,
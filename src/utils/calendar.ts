@@ -0,0 +1,87 @@
+import type { CycleSegment, DayType, PlannerProfile } from '../types';
+
+export interface CalendarDay {
+  date: string;
+  day: number;
+  dayType: DayType;
+  /** Mapped through a frozen past segment rather than the current settings. */
+  frozen: boolean;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function toIsoDate(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+export function todayIso(): string {
+  return toIsoDate(new Date());
+}
+
+function toUtc(iso: string): number {
+  const [y, m, d] = iso.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / MS_PER_DAY);
+}
+
+export function addDays(iso: string, n: number): string {
+  const d = new Date(toUtc(iso) + n * MS_PER_DAY);
+  return d.toISOString().slice(0, 10);
+}
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** 0 = Monday ... 6 = Sunday. */
+export function weekdayIndex(iso: string): number {
+  // 1970-01-05 was a Monday.
+  return ((daysBetween('1970-01-05', iso) % 7) + 7) % 7;
+}
+
+function mapDate(startDate: string, cycleDays: number, dayPlacement: DayType[], date: string) {
+  const offset = daysBetween(startDate, date);
+  const idx = ((offset % cycleDays) + cycleDays) % cycleDays;
+  return { day: idx + 1, dayType: dayPlacement[idx] ?? 'Low' };
+}
+
+/** Maps a calendar date to its cycle day, or undefined before the first cycle started. */
+export function cycleDayForDate(profile: PlannerProfile, date: string): CalendarDay | undefined {
+  const segment = (profile.cycleHistory ?? []).find((s) => date >= s.startDate && date < s.endDate);
+  if (segment) return { date, ...mapDate(segment.startDate, segment.cycleDays, segment.dayPlacement, date), frozen: true };
+  if (date < profile.cycleStartDate) return undefined;
+  return { date, ...mapDate(profile.cycleStartDate, profile.cycleDays, profile.dayPlacement, date), frozen: false };
+}
+
+/** Start date of the repetition of the current cycle that contains `date`. */
+export function cycleStartFor(profile: PlannerProfile, date: string): string {
+  const offset = Math.max(0, daysBetween(profile.cycleStartDate, date));
+  return addDays(profile.cycleStartDate, Math.floor(offset / profile.cycleDays) * profile.cycleDays);
+}
+
+export function cycleAgenda(profile: PlannerProfile, from: string, count: number): Array<CalendarDay | { date: string }> {
+  return Array.from({ length: count }, (_, i) => {
+    const date = addDays(from, i);
+    return cycleDayForDate(profile, date) ?? { date };
+  });
+}
+
+/**
+ * Called before the cycle length changes: dates already lived under the old
+ * settings are frozen into history and the new settings start at `today`.
+ */
+export function freezeCycle(profile: PlannerProfile, today: string): Pick<PlannerProfile, 'cycleStartDate' | 'cycleHistory'> {
+  if (today <= profile.cycleStartDate) {
+    return { cycleStartDate: profile.cycleStartDate, cycleHistory: profile.cycleHistory };
+  }
+  const segment: CycleSegment = {
+    startDate: profile.cycleStartDate,
+    endDate: today,
+    cycleDays: profile.cycleDays,
+    dayPlacement: [...profile.dayPlacement]
+  };
+  return { cycleStartDate: today, cycleHistory: [...(profile.cycleHistory ?? []), segment] };
+}
@@ -1,6 +1,13 @@
 import * as XLSX from 'xlsx';
-import type { DayFoodEntry, DayTarget, FoodItem } from '../types';
+import type { DayFoodEntry, DayPlan, DayTarget, FoodItem, Language, NutrientGoal, Recipe } from '../types';
+import { LANGUAGES, t, type MessageKey } from '../i18n';
+import { dayEntries } from './meals';
+import { NUTRIENTS, nutrientWarnings } from './nutrients';
+import { expandRecipeEntry } from './recipes';
+import { rawEquivalent } from './yields';
+import { entryUnit, unitAmount } from './units';
 import { computeTotals } from './solver';
+import type { ShoppingItem } from './shopping';
 
 export function exportCsv(filename: string, headers: string[], rows: (string | number)[][]) {
   const csv = [headers.join(','), ...rows.map((r) => r.map((v) => JSON.stringify(v ?? '')).join(','))].join('\n');
@@ -12,11 +19,42 @@ export function exportCsv(filename: string, headers: string[], rows: (string | n
   URL.revokeObjectURL(a.href);
 }
 
+/** Column header in `lang`; the English headers are the snake_case column names themselves. */
+export function columnHeader(column: string, lang: Language = 'en'): string {
+  return t(lang, `col.${column}` as MessageKey);
+}
+
+/** Column name for a header written in any UI language, e.g. `タンパク質_g` → `protein_g`. */
+export function columnForHeader(header: string, columns: string[]): string | undefined {
+  const h = header.trim().toLowerCase();
+  return columns.find((c) => LANGUAGES.some((l) => columnHeader(c, l.code).toLowerCase() === h));
+}
+
+function localizeColumns(rows: Array<Record<string, string | number>>, lang: Language) {
+  return rows.map((row) => Object.fromEntries(Object.entries(row).map(([k, v]) => [columnHeader(k, lang), v])));
+}
+
+export const SHOPPING_HEADERS = ['category', 'food_id', 'food_name', 'basis', 'grams', 'days', 'checked'];
+
+export function shoppingRows(items: ShoppingItem[], checked: string[] = []): (string | number)[][] {
+  return items.map((i) => [i.category, i.foodId, i.name_en, i.basis, i.grams, i.days, checked.includes(i.key) ? 'yes' : '']);
+}
+
 export function exportXlsx(
   dayTargets: DayTarget[],
-  dayPlans: Record<number, DayFoodEntry[]>,
-  foodsMap: Map<string, FoodItem>
+  dayPlans: Record<number, DayPlan>,
+  foodsMap: Map<string, FoodItem>,
+  options: {
+    nutrientGoals?: NutrientGoal[];
+    /** When given, recipe entries in DailyPlan are expanded into their ingredients. */
+    recipes?: Map<string, Recipe>;
+    /** Adds a ShoppingList sheet. */
+    shopping?: { items: ShoppingItem[]; checked?: string[] };
+    /** Column headers and warnings language; sheet names stay English. */
+    lang?: Language;
+  } = {}
 ) {
+  const lang = options.lang ?? 'en';
   const targetRows = dayTargets.map((d) => ({
     day: d.day,
     day_type: d.dayType,
@@ -29,23 +67,40 @@ export function exportXlsx(
   const devRows: Array<Record<string, string | number>> = [];
 
   dayTargets.forEach((target) => {
-    const entries = dayPlans[target.day] ?? [];
-    const totals = computeTotals(entries, foodsMap);
+    const plan = dayPlans[target.day];
+    const totals = computeTotals(dayEntries(plan), foodsMap);
 
-    entries.forEach((e) => {
+    const pushRow = (meal: string, e: DayFoodEntry, recipe: string) => {
       const food = foodsMap.get(e.foodId);
       const variant = food?.variants.find((v) => v.basis === e.basis) ?? food?.variants[0];
       const ratio = e.grams / 100;
       planRows.push({
         day: target.day,
+        meal,
+        recipe,
         food_id: e.foodId,
         food_name: food?.name_en ?? e.foodId,
         basis: e.basis,
+        unit_amount: unitAmount(food, e),
+        unit: entryUnit(food, e).label,
         grams: e.grams,
+        raw_equivalent_g: food && e.basis === 'cooked' ? rawEquivalent(food, e.grams, e.basis) : e.grams,
         protein_g: Number(((variant?.p ?? 0) * ratio).toFixed(2)),
         carb_g: Number(((variant?.c ?? 0) * ratio).toFixed(2)),
         fat_g: Number(((variant?.f ?? 0) * ratio).toFixed(2)),
-        kcal: Number((((variant?.kcal ?? 0) * ratio)).toFixed(2))
+        kcal: Number((((variant?.kcal ?? 0) * ratio)).toFixed(2)),
+        ...Object.fromEntries(NUTRIENTS.map((n) => [n.column, variant?.[n.key] === undefined ? '' : Number((variant[n.key]! * ratio).toFixed(2))]))
+      });
+    };
+
+    (plan?.meals ?? []).forEach((meal) => {
+      meal.entries.forEach((e) => {
+        const recipe = options.recipes?.get(e.foodId);
+        if (recipe) {
+          expandRecipeEntry(e, recipe).forEach((i) => pushRow(meal.name, i, recipe.name_en));
+        } else {
+          pushRow(meal.name, e, '');
+        }
       });
     });
 
@@ -61,13 +116,20 @@ export function exportXlsx(
       fat_target_g: target.fatTarget,
       fat_actual_g: totals.f,
       fat_diff_g: Number((totals.f - target.fatTarget).toFixed(2)),
-      kcal_actual: totals.kcal
+      kcal_actual: totals.kcal,
+      // Left empty when some food has no value; the partial sum would read as a real total.
+      ...Object.fromEntries(NUTRIENTS.map((n) => [n.column, totals.incomplete.includes(n.key) ? '' : totals[n.key]])),
+      nutrient_warnings: nutrientWarnings(totals, options.nutrientGoals ?? [], lang).join(' ')
     });
   });
 
   const wb = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(targetRows), 'CycleTargets');
-  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(planRows), 'DailyPlan');
-  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(devRows), 'Deviations');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(localizeColumns(targetRows, lang)), 'CycleTargets');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(localizeColumns(planRows, lang)), 'DailyPlan');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(localizeColumns(devRows, lang)), 'Deviations');
+  if (options.shopping) {
+    const rows = shoppingRows(options.shopping.items, options.shopping.checked);
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([SHOPPING_HEADERS.map((h) => columnHeader(h, lang)), ...rows]), 'ShoppingList');
+  }
   XLSX.writeFile(wb, 'carbcycler_export.xlsx');
 }
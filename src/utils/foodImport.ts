@@ -0,0 +1,298 @@
+import type { Basis, Category, FoodItem, FoodVariant, Language, NutrientKey } from '../types';
+import { t, type MessageKey } from '../i18n';
+import { round2 } from './calc';
+import { NUTRIENTS } from './nutrients';
+
+export type ImportField = 'name_en' | 'name_zh' | 'category' | 'basis' | 'kcal' | 'p' | 'c' | 'f' | 'serving_g' | NutrientKey;
+
+export const IMPORT_FIELDS: Array<{ key: ImportField; label: MessageKey; unit?: string; required?: boolean }> = [
+  { key: 'name_en', label: 'import.nameEn', required: true },
+  { key: 'name_zh', label: 'import.nameZh' },
+  { key: 'category', label: 'category' },
+  { key: 'basis', label: 'basis' },
+  { key: 'serving_g', label: 'import.servingGrams' },
+  { key: 'kcal', label: 'col.kcal' },
+  { key: 'p', label: 'protein', unit: 'g', required: true },
+  { key: 'c', label: 'carb', unit: 'g', required: true },
+  { key: 'f', label: 'fat', unit: 'g', required: true },
+  ...NUTRIENTS.map((n) => ({ key: n.key as ImportField, label: n.label, unit: n.unit }))
+];
+
+export function importFieldLabel(field: (typeof IMPORT_FIELDS)[number], lang: Language): string {
+  return field.unit ? `${t(lang, field.label)} ${field.unit}` : t(lang, field.label);
+}
+
+/** Column index per field; -1 leaves the field unmapped. */
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  line: number;
+  name_en: string;
+  name_zh: string;
+  category: Category;
+  variant: FoodVariant;
+  errors: string[];
+  /** Id or name of the existing food (or earlier row) this one duplicates. */
+  duplicateOf?: string;
+}
+
+const CATEGORIES: Category[] = ['protein', 'carb', 'fat', 'veg', 'fruit', 'dairy', 'other'];
+const BASES: Basis[] = ['raw', 'cooked', 'fresh'];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name_en: ['name_en', 'name', 'food', 'description', 'food_name'],
+  name_zh: ['name_zh', 'chinese', '中文', '名称'],
+  category: ['category', 'group', 'type'],
+  basis: ['basis', 'state', 'preparation'],
+  serving_g: ['serving_g', 'serving', 'per_g', 'grams', 'amount_g'],
+  kcal: ['kcal', 'calories', 'energy', 'energy_kcal'],
+  p: ['p', 'protein', 'protein_g'],
+  c: ['c', 'carb', 'carbs', 'carbohydrate', 'carbohydrates', 'carb_g'],
+  f: ['f', 'fat', 'total_fat', 'fat_g'],
+  fiber: ['fiber', 'fibre', 'fiber_g', 'dietary_fiber'],
+  sugar: ['sugar', 'sugars', 'sugar_g'],
+  satFat: ['satfat', 'sat_fat', 'saturated_fat', 'sat_fat_g'],
+  sodium: ['sodium', 'sodium_mg', 'na'],
+  potassium: ['potassium', 'potassium_mg', 'k'],
+  calcium: ['calcium', 'calcium_mg', 'ca'],
+  iron: ['iron', 'iron_mg', 'fe'],
+  vitaminC: ['vitaminc', 'vitamin_c', 'vitamin_c_mg', 'vit_c']
+};
+
+// FoodData Central nutrient numbers; amounts in FDC exports are per 100 g.
+const FDC_NUTRIENTS: Array<{ field: ImportField; numbers: string[] }> = [
+  { field: 'kcal', numbers: ['208', '958', '957'] },
+  { field: 'p', numbers: ['203'] },
+  { field: 'c', numbers: ['205'] },
+  { field: 'f', numbers: ['204'] },
+  { field: 'fiber', numbers: ['291'] },
+  { field: 'sugar', numbers: ['269', '269.3'] },
+  { field: 'satFat', numbers: ['606'] },
+  { field: 'sodium', numbers: ['307'] },
+  { field: 'potassium', numbers: ['306'] },
+  { field: 'calcium', numbers: ['301'] },
+  { field: 'iron', numbers: ['303'] },
+  { field: 'vitaminC', numbers: ['401'] }
+];
+
+function normalizeHeader(h: string): string {
+  return h.trim().toLowerCase().replace(/[\s()-]+/g, '_').replace(/_+$/, '');
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** RFC 4180-style CSV: quoted fields, doubled quotes, CRLF or LF line ends. */
+export function parseCsv(text: string): ImportTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i += 1) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  const nonEmpty = records.filter((r) => r.some((v) => v.trim() !== ''));
+  return { headers: (nonEmpty[0] ?? []).map((h) => h.trim()), rows: nonEmpty.slice(1) };
+}
+
+interface FdcFood {
+  description?: string;
+  foodNutrients?: Array<{
+    amount?: number;
+    value?: number;
+    number?: string;
+    nutrientNumber?: string;
+    nutrient?: { number?: string };
+  }>;
+}
+
+/**
+ * Flattens a FoodData Central JSON export (Foundation, SR Legacy, Survey or
+ * Branded, or a bare array of foods) into a table with mappable columns.
+ */
+export function parseFdcJson(text: string): ImportTable {
+  const data = JSON.parse(text) as unknown;
+  let foods: FdcFood[] = [];
+  if (Array.isArray(data)) {
+    foods = data as FdcFood[];
+  } else if (data && typeof data === 'object') {
+    for (const value of Object.values(data as Record<string, unknown>)) {
+      if (Array.isArray(value)) foods = foods.concat(value as FdcFood[]);
+    }
+  }
+  const fields = FDC_NUTRIENTS.map((n) => n.field);
+  const rows = foods.map((food) => {
+    const byNumber = new Map<string, number>();
+    for (const fn of food.foodNutrients ?? []) {
+      const num = fn.nutrient?.number ?? fn.nutrientNumber ?? fn.number;
+      const amount = fn.amount ?? fn.value;
+      if (num && typeof amount === 'number' && !byNumber.has(num)) byNumber.set(num, amount);
+    }
+    const values = FDC_NUTRIENTS.map((n) => {
+      const num = n.numbers.find((x) => byNumber.has(x));
+      return num ? String(byNumber.get(num)) : '';
+    });
+    return [food.description ?? '', ...values];
+  });
+  return { headers: ['name_en', ...fields], rows };
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  for (const { key } of IMPORT_FIELDS) {
+    mapping[key] = normalized.findIndex((h) => HEADER_ALIASES[key].includes(h));
+  }
+  return mapping;
+}
+
+/**
+ * A number that may use a decimal comma ("12,5"). A comma only counts as the
+ * decimal point with no dot and one to two digits after it; anything else with
+ * a comma ("1,200", "1.200,5") is NaN rather than a silently wrong value.
+ */
+export function parseDecimal(text: string): number {
+  const value = text.trim();
+  if (!value.includes(',')) return Number(value);
+  return /^[+-]?\d*,\d{1,2}$/.test(value) ? Number(value.replace(',', '.')) : NaN;
+}
+
+function parseNumber(raw: string | undefined): number | undefined {
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const n = parseDecimal(raw);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+/**
+ * Applies the mapping, normalises values to per 100 g, validates each row and
+ * flags duplicates against the existing foods and earlier rows in the file.
+ */
+export function buildImportRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  defaults: { category: Category; basis: Basis; servingGrams: number },
+  existing: FoodItem[],
+  lang: Language = 'en'
+): ImportRow[] {
+  const known = new Map<string, string>();
+  for (const f of existing) {
+    known.set(normalizeName(f.name_en), f.id);
+    if (f.name_zh) known.set(normalizeName(f.name_zh), f.id);
+  }
+  const seen = new Map<string, number>();
+
+  return table.rows.map((row, idx) => {
+    const cell = (field: ImportField) => (mapping[field] >= 0 ? row[mapping[field]] ?? '' : undefined);
+    const errors: string[] = [];
+    const name_en = (cell('name_en') ?? '').trim();
+    const name_zh = (cell('name_zh') ?? '').trim() || name_en;
+    if (!name_en) errors.push(t(lang, 'import.missingName'));
+
+    const rawCategory = (cell('category') ?? '').trim().toLowerCase();
+    const category = CATEGORIES.includes(rawCategory as Category) ? (rawCategory as Category) : defaults.category;
+    if (rawCategory && category !== rawCategory) errors.push(t(lang, 'import.unknownCategory', { value: rawCategory }));
+
+    const rawBasis = (cell('basis') ?? '').trim().toLowerCase();
+    const basis = BASES.includes(rawBasis as Basis) ? (rawBasis as Basis) : defaults.basis;
+    if (rawBasis && basis !== rawBasis) errors.push(t(lang, 'import.unknownBasis', { value: rawBasis }));
+
+    const serving = parseNumber(cell('serving_g')) ?? defaults.servingGrams;
+    if (!(serving > 0)) errors.push(t(lang, 'import.servingPositive'));
+    const scale = serving > 0 ? 100 / serving : 0;
+
+    const value = (field: ImportField, required: boolean) => {
+      const n = parseNumber(cell(field));
+      if (n === undefined) {
+        if (required) errors.push(t(lang, 'import.missingField', { field }));
+        return undefined;
+      }
+      if (Number.isNaN(n) || n < 0) {
+        errors.push(t(lang, 'import.invalidField', { field, value: cell(field) ?? '' }));
+        return undefined;
+      }
+      return round2(n * scale);
+    };
+
+    const p = value('p', true) ?? 0;
+    const c = value('c', true) ?? 0;
+    const f = value('f', true) ?? 0;
+    const variant: FoodVariant = { basis, kcal: value('kcal', false) ?? round2(p * 4 + c * 4 + f * 9), p, c, f };
+    for (const n of NUTRIENTS) {
+      const v = value(n.key, false);
+      if (v !== undefined) variant[n.key] = v;
+    }
+    if (p + c + f > 100.5) errors.push(t(lang, 'import.macrosExceed'));
+
+    const key = normalizeName(name_en);
+    const duplicateOf = known.get(key) ?? known.get(normalizeName(name_zh));
+    const earlier = seen.get(`${key}|${basis}`);
+    seen.set(`${key}|${basis}`, idx);
+
+    return {
+      line: idx + 2,
+      name_en,
+      name_zh,
+      category,
+      variant,
+      errors,
+      duplicateOf: duplicateOf ?? (earlier !== undefined ? t(lang, 'import.line', { line: String(earlier + 2) }) : undefined)
+    };
+  });
+}
+
+/** Rows sharing a name become one food with one variant per basis. */
+export function rowsToFoods(rows: ImportRow[]): FoodItem[] {
+  const byName = new Map<string, FoodItem>();
+  const stamp = Date.now();
+  rows.forEach((r, i) => {
+    const key = normalizeName(r.name_en);
+    const existing = byName.get(key);
+    if (existing) {
+      if (!existing.variants.some((v) => v.basis === r.variant.basis)) existing.variants.push(r.variant);
+      return;
+    }
+    byName.set(key, {
+      id: `custom_${stamp}_${i}`,
+      name_en: r.name_en,
+      name_zh: r.name_zh,
+      category: r.category,
+      emoji: ' ',
+      variants: [r.variant]
+    });
+  });
+  return [...byName.values()];
+}
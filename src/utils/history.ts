@@ -0,0 +1,41 @@
+export interface History<T> {
+  /** Oldest first; the last item is what undo restores. */
+  past: T[];
+  /** Most recently undone last. */
+  future: T[];
+  /** Coalescing key and time of the last recorded edit. */
+  lastKey?: string;
+  lastAt: number;
+}
+
+export const HISTORY_LIMIT = 100;
+/** Edits with the same key closer together than this collapse into one undo step. */
+export const COALESCE_MS = 1000;
+
+export function emptyHistory<T>(): History<T> {
+  return { past: [], future: [], lastAt: 0 };
+}
+
+/**
+ * Records `previous` (the state before an edit) as an undo step and clears
+ * redo. Repeated edits of the same field (same `key`) within COALESCE_MS
+ * keep the original step, so typing "72.5" undoes in one go.
+ */
+export function recordHistory<T>(history: History<T>, previous: T, key?: string, now = Date.now()): History<T> {
+  if (key && key === history.lastKey && now - history.lastAt < COALESCE_MS && history.past.length) {
+    return { ...history, future: [], lastAt: now };
+  }
+  return { past: [...history.past, previous].slice(-HISTORY_LIMIT), future: [], lastKey: key, lastAt: now };
+}
+
+export function undoHistory<T>(history: History<T>, current: T): { history: History<T>; state: T } | undefined {
+  if (!history.past.length) return undefined;
+  const state = history.past[history.past.length - 1];
+  return { history: { past: history.past.slice(0, -1), future: [...history.future, current], lastAt: 0 }, state };
+}
+
+export function redoHistory<T>(history: History<T>, current: T): { history: History<T>; state: T } | undefined {
+  if (!history.future.length) return undefined;
+  const state = history.future[history.future.length - 1];
+  return { history: { past: [...history.past, current], future: history.future.slice(0, -1), lastAt: 0 }, state };
+}
@@ -0,0 +1,138 @@
+import type { DayPlan, DayTarget, FoodItem, Language, MealKind, PlannerProfile } from '../types';
+import { formatNumber, localName, t } from '../i18n';
+import { addDays, cycleDayForDate } from './calendar';
+import { formatAmount } from './units';
+
+/** Default start of each meal's event, in minutes after midnight; meals have no time of their own. */
+export const MEAL_TIMES: Record<MealKind, number> = {
+  allDay: 12 * 60,
+  breakfast: 8 * 60,
+  lunch: 12 * 60 + 30,
+  dinner: 19 * 60,
+  snack: 16 * 60,
+  preWorkout: 17 * 60,
+  postWorkout: 19 * 60 + 30
+};
+const MEAL_EVENT_MINUTES = 30;
+
+export interface IcsOptions {
+  lang: Language;
+  /** Part of every UID, so each profile's events stay separate. */
+  profileId: string;
+  calendarName: string;
+  /** First date to export; normally the current cycle's D1. */
+  from: string;
+  cycles: number;
+  includeMeals: boolean;
+  now?: Date;
+}
+
+function escapeText(s: string): string {
+  return s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line into 75-octet pieces (RFC 5545 §3.1) without splitting UTF-8 characters. */
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    // Continuation lines start with a space, which counts towards their 75 octets.
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += ch;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+function icsDate(iso: string): string {
+  return iso.replace(/-/g, '');
+}
+
+/** Floating local time, so events stay at e.g. 08:00 wherever the phone is. */
+function icsLocalTime(iso: string, minutes: number): string {
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${icsDate(iso)}T${hh}${mm}00`;
+}
+
+function icsUtc(d: Date): string {
+  return `${d.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+/**
+ * One all-day event per date with the day type and P/C/F targets, plus
+ * optional timed events per planned meal. UIDs depend only on the profile,
+ * the date and the meal, so importing a newer file updates the same events.
+ */
+export function buildIcs(
+  profile: PlannerProfile,
+  dayTargets: DayTarget[],
+  dayPlans: Record<number, DayPlan>,
+  foodsMap: Map<string, FoodItem>,
+  options: IcsOptions
+): { ics: string; events: number } {
+  const { lang, profileId } = options;
+  const stamp = icsUtc(options.now ?? new Date());
+  const num = (n: number) => formatNumber(lang, n, 0);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CarbCycler//Planner//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`
+  ];
+  let events = 0;
+  const event = (uid: string, fields: string[]) => {
+    lines.push('BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${stamp}`, ...fields, 'END:VEVENT');
+    events += 1;
+  };
+
+  for (let i = 0; i < options.cycles * profile.cycleDays; i += 1) {
+    const date = addDays(options.from, i);
+    const mapped = cycleDayForDate(profile, date);
+    const target = mapped && dayTargets[mapped.day - 1];
+    if (!mapped || !target) continue;
+    const kcal = target.proteinTarget * 4 + target.carbTarget * 4 + target.fatTarget * 9;
+    const summary = t(lang, 'ical.daySummary', {
+      day: String(mapped.day),
+      dayType: t(lang, `dayType.${mapped.dayType}`),
+      p: num(target.proteinTarget),
+      c: num(target.carbTarget),
+      f: num(target.fatTarget)
+    });
+    event(`${profileId}-${icsDate(date)}-day@carbcycler`, [
+      `DTSTART;VALUE=DATE:${icsDate(date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(date, 1))}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(t(lang, 'energyTarget', { kcal: num(kcal) }))}`,
+      'TRANSP:TRANSPARENT'
+    ]);
+
+    if (!options.includeMeals) continue;
+    (dayPlans[mapped.day]?.meals ?? []).forEach((meal) => {
+      if (!meal.entries.length) return;
+      const foods = meal.entries.map((e) => {
+        const food = foodsMap.get(e.foodId);
+        return `${food ? localName(lang, food) : e.foodId} (${t(lang, `basis.${e.basis}`)}) ${formatAmount(food, e, lang)}`;
+      });
+      const start = MEAL_TIMES[meal.kind] ?? MEAL_TIMES.allDay;
+      event(`${profileId}-${icsDate(date)}-${meal.id}@carbcycler`, [
+        `DTSTART:${icsLocalTime(date, start)}`,
+        `DTEND:${icsLocalTime(date, start + MEAL_EVENT_MINUTES)}`,
+        `SUMMARY:${escapeText(meal.name)}`,
+        `DESCRIPTION:${escapeText(foods.join('\n'))}`
+      ]);
+    });
+  }
+
+  lines.push('END:VCALENDAR');
+  return { ics: `${lines.map(fold).join('\r\n')}\r\n`, events };
+}
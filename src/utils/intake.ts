@@ -0,0 +1,37 @@
+import type { DayTarget, DayTotals, FoodItem, IntakeDay } from '../types';
+import { round2 } from './calc';
+import { computeTotals } from './solver';
+
+export interface Adherence {
+  totals: DayTotals;
+  /** Actual minus target, grams. */
+  dp: number;
+  dc: number;
+  df: number;
+  /** Actual as a percentage of target, per macro. */
+  pctP: number;
+  pctC: number;
+  pctF: number;
+}
+
+function pct(actual: number, target: number): number {
+  return target > 0 ? round2((actual / target) * 100) : 0;
+}
+
+export function computeAdherence(day: IntakeDay, target: DayTarget | undefined, foodsMap: Map<string, FoodItem>): Adherence {
+  const totals = computeTotals(day.entries, foodsMap);
+  const t = day.target ?? target;
+  return {
+    totals,
+    dp: round2(totals.p - (t?.proteinTarget ?? 0)),
+    dc: round2(totals.c - (t?.carbTarget ?? 0)),
+    df: round2(totals.f - (t?.fatTarget ?? 0)),
+    pctP: pct(totals.p, t?.proteinTarget ?? 0),
+    pctC: pct(totals.c, t?.carbTarget ?? 0),
+    pctF: pct(totals.f, t?.fatTarget ?? 0)
+  };
+}
+
+export function emptyIntakeDay(date: string, target?: DayTarget): IntakeDay {
+  return { date, target, entries: [] };
+}
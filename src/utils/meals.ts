@@ -0,0 +1,61 @@
+import type { DayFoodEntry, DayPlan, DayTarget, MacroSplit, Meal, MealKind } from '../types';
+import { t } from '../i18n';
+import { round2 } from './calc';
+import type { MacroTarget } from './solver';
+
+/** Default macro split per meal kind; names are the `meal.<kind>` messages. */
+export const MEAL_PRESETS: Record<MealKind, { split: MacroSplit }> = {
+  allDay: { split: { p: 1, c: 1, f: 1 } },
+  breakfast: { split: { p: 1, c: 1, f: 1 } },
+  lunch: { split: { p: 1, c: 1, f: 1 } },
+  dinner: { split: { p: 1, c: 1, f: 1 } },
+  snack: { split: { p: 0.5, c: 0.5, f: 0.5 } },
+  preWorkout: { split: { p: 1, c: 1.5, f: 0.5 } },
+  postWorkout: { split: { p: 1.2, c: 2, f: 0.5 } }
+};
+
+export const DEFAULT_MEAL_ID = 'all_day';
+
+export function createMeal(kind: MealKind, name?: string, entries: DayFoodEntry[] = []): Meal {
+  const preset = MEAL_PRESETS[kind];
+  return {
+    id: kind === 'allDay' ? DEFAULT_MEAL_ID : `meal_${Date.now()}`,
+    kind,
+    name: name ?? t('en', `meal.${kind}`),
+    split: { ...preset.split },
+    entries
+  };
+}
+
+export function defaultDayPlan(entries: DayFoodEntry[] = []): DayPlan {
+  return { meals: [createMeal('allDay', undefined, entries)] };
+}
+
+/** Older saves stored each day as a flat entry list; wrap those into a single all-day meal. */
+export function migrateDayPlans(raw: Record<number, DayFoodEntry[] | DayPlan>): Record<number, DayPlan> {
+  const out: Record<number, DayPlan> = {};
+  for (const [day, value] of Object.entries(raw)) {
+    out[Number(day)] = Array.isArray(value) ? defaultDayPlan(value) : value;
+  }
+  return out;
+}
+
+export function dayEntries(plan?: DayPlan): DayFoodEntry[] {
+  return plan ? plan.meals.flatMap((m) => m.entries) : [];
+}
+
+/** Splits a day target across meals in proportion to each meal's split weight, per macro. */
+export function mealTargets(target: DayTarget, meals: Meal[]): Record<string, MacroTarget> {
+  const sum = (k: keyof MacroSplit) => meals.reduce((s, m) => s + Math.max(0, m.split[k]), 0);
+  const totals = { p: sum('p'), c: sum('c'), f: sum('f') };
+  const share = (m: Meal, k: keyof MacroSplit) => (totals[k] > 0 ? Math.max(0, m.split[k]) / totals[k] : 1 / meals.length);
+  const out: Record<string, MacroTarget> = {};
+  meals.forEach((m) => {
+    out[m.id] = {
+      p: round2(target.proteinTarget * share(m, 'p')),
+      c: round2(target.carbTarget * share(m, 'c')),
+      f: round2(target.fatTarget * share(m, 'f'))
+    };
+  });
+  return out;
+}
@@ -0,0 +1,44 @@
+import type { DayTotals, Language, NutrientGoal, NutrientKey } from '../types';
+import { formatNumber, t, type MessageKey } from '../i18n';
+
+export const NUTRIENTS: Array<{ key: NutrientKey; label: MessageKey; unit: 'g' | 'mg'; column: string }> = [
+  { key: 'fiber', label: 'nutrient.fiber', unit: 'g', column: 'fiber_g' },
+  { key: 'sugar', label: 'nutrient.sugar', unit: 'g', column: 'sugar_g' },
+  { key: 'satFat', label: 'nutrient.satFat', unit: 'g', column: 'sat_fat_g' },
+  { key: 'sodium', label: 'nutrient.sodium', unit: 'mg', column: 'sodium_mg' },
+  { key: 'potassium', label: 'nutrient.potassium', unit: 'mg', column: 'potassium_mg' },
+  { key: 'calcium', label: 'nutrient.calcium', unit: 'mg', column: 'calcium_mg' },
+  { key: 'iron', label: 'nutrient.iron', unit: 'mg', column: 'iron_mg' },
+  { key: 'vitaminC', label: 'nutrient.vitaminC', unit: 'mg', column: 'vitamin_c_mg' }
+];
+
+export const NUTRIENT_KEYS: NutrientKey[] = NUTRIENTS.map((n) => n.key);
+
+export function nutrientInfo(key: NutrientKey) {
+  return NUTRIENTS.find((n) => n.key === key)!;
+}
+
+/**
+ * Goal warnings for a day. When some foods lack a nutrient its total is only a
+ * lower bound: a maximum can still be exceeded for sure, but a shortfall or a
+ * pass cannot be told apart, so those goals get a "cannot be checked" note.
+ */
+export function nutrientWarnings(totals: DayTotals, goals: NutrientGoal[], lang: Language = 'en'): string[] {
+  const out: string[] = [];
+  for (const g of goals) {
+    const { label, unit } = nutrientInfo(g.key);
+    const params = { nutrient: t(lang, label), actual: totals[g.key], goal: g.value, unit };
+    const partial = totals.incomplete.includes(g.key);
+    if (g.kind === 'max' && totals[g.key] > g.value) out.push(t(lang, 'warning.nutrientAbove', params));
+    else if (partial && (g.kind === 'max' || totals[g.key] < g.value)) out.push(t(lang, 'warning.nutrientUnknown', params));
+    else if (g.kind === 'min' && totals[g.key] < g.value) out.push(t(lang, 'warning.nutrientBelow', params));
+  }
+  return out;
+}
+
+/** A nutrient total with its unit for display: `≥` when some foods lack the value, `—` when none of them has it. */
+export function formatNutrientTotal(totals: DayTotals, key: NutrientKey, lang: Language = 'en'): string {
+  const value = `${formatNumber(lang, totals[key], 2)} ${nutrientInfo(key).unit}`;
+  if (!totals.incomplete.includes(key)) return value;
+  return totals[key] > 0 ? `≥ ${value}` : '—';
+}
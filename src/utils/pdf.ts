@@ -0,0 +1,78 @@
+/** A4 in PDF points (1/72 in). */
+export const A4_WIDTH_PT = 595.28;
+export const A4_HEIGHT_PT = 841.89;
+
+/** A page rendered as a JPEG; it fills the whole A4 page, so it should have the A4 aspect ratio. */
+export interface PdfPage {
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/** Bytes of a base64 data URL such as `canvas.toDataURL('image/jpeg')`. */
+export function dataUrlBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Writes a PDF with one full-page image per page. Pages are drawn on a canvas
+ * first, so any script the browser can render (Chinese included) comes out
+ * right without embedding fonts.
+ */
+export function buildPdf(pages: PdfPage[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, ...parts: Array<string | Uint8Array>) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, content stream and image for each page.
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+  const size = 3 + pages.length * 3;
+  write('%PDF-1.4\n%âãÏÓ\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  pages.forEach((page, i) => {
+    const id = pageIds[i];
+    const content = `q ${A4_WIDTH_PT} 0 0 ${A4_HEIGHT_PT} 0 0 cm /Im0 Do Q`;
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH_PT} ${A4_HEIGHT_PT}] ` +
+        `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    object(id + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    object(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+      page.jpeg,
+      '\nendstream'
+    );
+  });
+
+  const xref = length;
+  write(`xref\n0 ${size}\n0000000000 65535 f \n`);
+  for (let id = 1; id < size; id += 1) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let at = 0;
+  chunks.forEach((c) => {
+    out.set(c, at);
+    at += c.length;
+  });
+  return out;
+}
@@ -0,0 +1,96 @@
+import type { DayType, Language, PlannerProfile, SessionIntensity } from '../types';
+import { t, type MessageKey } from '../i18n';
+import { addDays, weekdayIndex } from './calendar';
+
+export const INTENSITY_SCORE: Record<SessionIntensity, number> = {
+  rest: 0,
+  light: 1,
+  moderate: 2,
+  hard: 3
+};
+
+export const DEFAULT_TRAINING_SCHEDULE: SessionIntensity[] = ['hard', 'moderate', 'rest', 'hard', 'moderate', 'light', 'rest'];
+
+export interface PlacementResult {
+  placement: DayType[];
+  reasons: string[];
+}
+
+/**
+ * Session intensity for each cycle day, reading the weekly schedule from the
+ * weekday each day falls on in the cycle repetition starting at `from`.
+ */
+export function cycleIntensities(profile: PlannerProfile, from: string): Array<{ weekday: number; intensity: SessionIntensity }> {
+  return Array.from({ length: profile.cycleDays }, (_, i) => {
+    const w = weekdayIndex(addDays(from, i));
+    return { weekday: w, intensity: profile.trainingSchedule[w] ?? 'rest' };
+  });
+}
+
+function isLow(placement: DayType[], i: number): boolean {
+  const n = placement.length;
+  return placement[((i % n) + n) % n] === 'Low';
+}
+
+function hasLowNeighbour(placement: DayType[], i: number): boolean {
+  // The cycle repeats, so the last day neighbours the first.
+  return placement.length > 1 && (isLow(placement, i - 1) || isLow(placement, i + 1));
+}
+
+/**
+ * High days go to the hardest sessions and Low days to rest days, keeping the
+ * nHigh/nMed/nLow counts. Back-to-back Low days are then broken up by
+ * swapping with the least demanding Medium day that has no Low neighbour.
+ */
+export function autoPlacement(
+  profile: PlannerProfile,
+  days: Array<{ weekday: number; intensity: SessionIntensity }>,
+  lang: Language = 'en'
+): PlacementResult {
+  const n = days.length;
+  const order = days.map((_, i) => i);
+  const byScoreDesc = [...order].sort((a, b) => INTENSITY_SCORE[days[b].intensity] - INTENSITY_SCORE[days[a].intensity] || a - b);
+  const placement: DayType[] = Array(n).fill('Medium');
+
+  byScoreDesc.slice(0, profile.nHigh).forEach((i) => {
+    placement[i] = 'High';
+  });
+  byScoreDesc
+    .slice(profile.nHigh)
+    .reverse()
+    .slice(0, profile.nLow)
+    .forEach((i) => {
+      placement[i] = 'Low';
+    });
+
+  const swapped = new Set<number>();
+  for (let i = 0; i < n; i += 1) {
+    if (placement[i] !== 'Low' || !hasLowNeighbour(placement, i)) continue;
+    const candidate = order
+      .filter((j) => placement[j] === 'Medium')
+      .filter((j) => !hasLowNeighbour(placement.map((d, k) => (k === j ? 'Low' : k === i ? 'Medium' : d)), j))
+      .sort((a, b) => INTENSITY_SCORE[days[a].intensity] - INTENSITY_SCORE[days[b].intensity] || a - b)[0];
+    if (candidate === undefined) continue;
+    placement[candidate] = 'Low';
+    placement[i] = 'Medium';
+    swapped.add(i);
+    swapped.add(candidate);
+  }
+
+  const reasons = days.map((d, i) => {
+    const params = {
+      day: `D${i + 1}`,
+      weekday: t(lang, `weekday.${d.weekday}` as MessageKey),
+      intensity: t(lang, `intensity.${d.intensity}`),
+      dayType: t(lang, `dayType.${placement[i]}`),
+      high: profile.nHigh,
+      low: profile.nLow
+    };
+    if (swapped.has(i)) return t(lang, 'placement.swapped', params);
+    if (placement[i] === 'High') return t(lang, 'placement.high', params);
+    if (placement[i] === 'Low') return t(lang, 'placement.low', params);
+    return t(lang, 'placement.medium', params);
+  });
+
+  return { placement, reasons };
+}
@@ -0,0 +1,173 @@
+import * as XLSX from 'xlsx';
+import type { Basis, DayFoodEntry, DayPlan, FoodItem, Language, Meal, MealKind } from '../types';
+import { LANGUAGES, t, type MessageParams, type MessageKey } from '../i18n';
+import { round2 } from './calc';
+import { columnForHeader } from './export';
+import { parseCsv, parseDecimal, type ImportTable } from './foodImport';
+import { MEAL_PRESETS, createMeal } from './meals';
+
+/** DailyPlan columns the importer reads; the rest (names, macros, units) are derived again on import. */
+const PLAN_COLUMNS = ['day', 'meal', 'recipe', 'food_id', 'basis', 'grams'] as const;
+type PlanColumn = (typeof PLAN_COLUMNS)[number];
+const REQUIRED: PlanColumn[] = ['day', 'food_id', 'basis', 'grams'];
+const BASES: Basis[] = ['raw', 'cooked', 'fresh'];
+
+export interface PlanChange {
+  day: number;
+  meal: string;
+  foodId: string;
+  basis: Basis;
+  /** 0 when the food is new to the meal. */
+  before: number;
+  /** 0 when the food is no longer in the meal. */
+  after: number;
+}
+
+export interface PlanImportResult {
+  /** Plans of the days found in the file; other days are left alone. */
+  plans: Record<number, DayPlan>;
+  changes: PlanChange[];
+  /** Per-line problems; those lines are skipped. */
+  issues: string[];
+  rowsRead: number;
+  /** Food ids that are neither foods nor recipes here. */
+  unknownFoods: string[];
+  /** Lines exported with "expand recipes"; they come back as separate ingredient entries. */
+  recipeRows: number;
+}
+
+/** Reads the DailyPlan sheet of an exported workbook (or the first sheet), or a CSV with the same columns. */
+export async function readPlanFile(file: File, lang: Language = 'en'): Promise<ImportTable> {
+  let table: ImportTable;
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    table = parseCsv(await file.text());
+  } else {
+    const wb = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = wb.Sheets.DailyPlan ?? wb.Sheets[wb.SheetNames[0]];
+    const aoa = sheet ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: true }) : [];
+    table = { headers: (aoa[0] ?? []).map(String), rows: aoa.slice(1).map((r) => r.map((v) => String(v ?? ''))) };
+  }
+  if (!table.headers.length || !table.rows.length) throw new Error(t(lang, 'import.noRows'));
+  return table;
+}
+
+/** Accepts the English value or its translation in any UI language, e.g. `crudo` → `raw`. */
+function matchTranslated<T extends string>(value: string, options: readonly T[], key: (o: T) => MessageKey): T | undefined {
+  const v = value.trim().toLowerCase();
+  return options.find((o) => o === v || LANGUAGES.some((l) => t(l.code, key(o)).toLowerCase() === v));
+}
+
+function mealKindFor(name: string): MealKind {
+  const kinds = Object.keys(MEAL_PRESETS) as MealKind[];
+  return matchTranslated(name, kinds, (k) => `meal.${k}`) ?? 'snack';
+}
+
+function mealTotals(plan: DayPlan | undefined): Map<string, { meal: string; foodId: string; basis: Basis; grams: number }> {
+  const out = new Map<string, { meal: string; foodId: string; basis: Basis; grams: number }>();
+  plan?.meals.forEach((m) =>
+    m.entries.forEach((e) => {
+      const key = `${m.name}\u0000${e.foodId}\u0000${e.basis}`;
+      const item = out.get(key) ?? { meal: m.name, foodId: e.foodId, basis: e.basis, grams: 0 };
+      item.grams = round2(item.grams + e.grams);
+      out.set(key, item);
+    })
+  );
+  return out;
+}
+
+/** Added, removed and re-weighed foods per day and meal, between the current plans and the imported ones. */
+export function diffPlans(current: Record<number, DayPlan>, next: Record<number, DayPlan>): PlanChange[] {
+  const changes: PlanChange[] = [];
+  Object.keys(next)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach((day) => {
+      const before = mealTotals(current[day]);
+      const after = mealTotals(next[day]);
+      new Set([...before.keys(), ...after.keys()]).forEach((key) => {
+        const b = before.get(key);
+        const a = after.get(key);
+        if (b && a && b.grams === a.grams) return;
+        const item = (a ?? b)!;
+        changes.push({ day, meal: item.meal, foodId: item.foodId, basis: item.basis, before: b?.grams ?? 0, after: a?.grams ?? 0 });
+      });
+    });
+  return changes;
+}
+
+/**
+ * Turns DailyPlan rows back into day plans. Headers may be in any UI language.
+ * Meals are matched to the day's current meals by name so their ids, splits and
+ * entry constraints survive the round trip.
+ */
+export function buildPlanImport(
+  table: ImportTable,
+  current: Record<number, DayPlan>,
+  foodsMap: Map<string, FoodItem>,
+  cycleDays: number,
+  lang: Language = 'en'
+): PlanImportResult {
+  const col = Object.fromEntries(PLAN_COLUMNS.map((c) => [c, -1])) as Record<PlanColumn, number>;
+  table.headers.forEach((h, i) => {
+    const column = columnForHeader(h, [...PLAN_COLUMNS]) as PlanColumn | undefined;
+    if (column && col[column] < 0) col[column] = i;
+  });
+  const missing = REQUIRED.filter((c) => col[c] < 0);
+  if (missing.length) throw new Error(t(lang, 'planImport.missingColumns', { columns: missing.join(', ') }));
+
+  const issues: string[] = [];
+  const note = (line: number, key: MessageKey, params: MessageParams = {}) => {
+    issues.push(t(lang, key, { line: String(line), ...params }));
+  };
+  const unknownFoods = new Set<string>();
+  const days = new Map<number, Map<string, DayFoodEntry[]>>();
+  let recipeRows = 0;
+
+  table.rows.forEach((row, i) => {
+    const line = i + 2;
+    const cell = (c: PlanColumn) => (col[c] >= 0 ? (row[col[c]] ?? '').trim() : '');
+    if (row.every((v) => !v.trim())) return;
+
+    const day = parseDecimal(cell('day'));
+    if (!Number.isInteger(day) || day < 1 || day > cycleDays) return note(line, 'planImport.badDay', { day: cell('day'), max: String(cycleDays) });
+    const foodId = cell('food_id');
+    const food = foodsMap.get(foodId);
+    if (!food) {
+      unknownFoods.add(foodId);
+      return note(line, 'planImport.unknownFood', { food: foodId || '—' });
+    }
+    const basis = matchTranslated(cell('basis'), BASES, (b) => `basis.${b}`);
+    if (!basis || !food.variants.some((v) => v.basis === basis)) {
+      return note(line, 'planImport.badBasis', { basis: cell('basis') || '—', food: food.name_en, allowed: food.variants.map((v) => v.basis).join(', ') });
+    }
+    const grams = parseDecimal(cell('grams'));
+    if (!Number.isFinite(grams) || grams < 0) return note(line, 'planImport.badGrams', { grams: cell('grams') || '—' });
+    if (cell('recipe')) recipeRows += 1;
+
+    const meals = days.get(day) ?? new Map<string, DayFoodEntry[]>();
+    const mealName = cell('meal') || current[day]?.meals[0]?.name || t('en', 'meal.allDay');
+    meals.set(mealName, [...(meals.get(mealName) ?? []), { foodId, basis, grams: round2(grams) }]);
+    days.set(day, meals);
+  });
+
+  const plans: Record<number, DayPlan> = {};
+  days.forEach((meals, day) => {
+    const existing = current[day]?.meals ?? [];
+    plans[day] = {
+      meals: [...meals].map(([name, entries], i): Meal => {
+        const meal = existing.find((m) => m.name === name) ?? { ...createMeal(mealKindFor(name), name), id: `meal_${Date.now()}_${day}_${i}` };
+        const kept = (e: DayFoodEntry) => meal.entries.find((x) => x.foodId === e.foodId && x.basis === e.basis);
+        return { ...meal, entries: entries.map((e) => ({ ...kept(e), ...e })) };
+      })
+    };
+  });
+
+  return {
+    plans,
+    changes: diffPlans(current, plans),
+    issues,
+    rowsRead: table.rows.length,
+    unknownFoods: [...unknownFoods].filter(Boolean),
+    recipeRows
+  };
+}
@@ -0,0 +1,523 @@
+import type { DayPlan, DayTarget, DayTotals, FoodItem, Language, PlannerProfile, PosterTheme } from '../types';
+import { formatNumber, localName, t } from '../i18n';
+import { ACTIVITY_FACTORS, bodyTypeName, bodyTypeRule } from './calc';
+import { CATEGORY_ORDER, type ShoppingItem } from './shopping';
+import { computeTotals } from './solver';
+import { formatAmount } from './units';
+
+export const POSTER_WIDTH = 1200;
+export const POSTER_HEIGHT = 1600;
+const MARGIN = 60;
+const CONTENT_TOP = 200;
+const CONTENT_WIDTH = POSTER_WIDTH - MARGIN * 2;
+// CJK fonts are listed so Chinese and Japanese text never falls back to boxes.
+const FONT_STACK =
+  '-apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Hiragino Sans", "Noto Sans CJK SC", "Microsoft YaHei", sans-serif';
+
+export interface PosterColors {
+  background: string;
+  surface: string;
+  text: string;
+  muted: string;
+  grid: string;
+  protein: string;
+  carb: string;
+  fat: string;
+  /** Amounts above target and nutrient warnings. */
+  over: string;
+}
+
+export const POSTER_THEMES: Record<PosterTheme, PosterColors> = {
+  light: {
+    background: '#f8fafc',
+    surface: '#e2e8f0',
+    text: '#0f172a',
+    muted: '#475569',
+    grid: '#cbd5e1',
+    protein: '#2563eb',
+    carb: '#0f766e',
+    fat: '#d97706',
+    over: '#dc2626'
+  },
+  dark: {
+    background: '#0f172a',
+    surface: '#1e293b',
+    text: '#f1f5f9',
+    muted: '#94a3b8',
+    grid: '#334155',
+    protein: '#60a5fa',
+    carb: '#2dd4bf',
+    fat: '#fbbf24',
+    over: '#f87171'
+  }
+};
+
+export interface MacroValues {
+  p: number;
+  c: number;
+  f: number;
+}
+
+export interface ChartDay {
+  day: number;
+  label: string;
+  actual: MacroValues;
+  target: MacroValues;
+}
+
+export type PosterBlock =
+  | { kind: 'heading'; text: string; level?: 1 | 2 }
+  /** `check` draws a checkbox in front of the text: false empty, true ticked. */
+  | { kind: 'text'; text: string; tone?: 'muted' | 'warning'; check?: boolean }
+  | { kind: 'macros'; actual: MacroValues; target: MacroValues }
+  | { kind: 'cycleChart'; days: ChartDay[] }
+  | { kind: 'gap' };
+
+export interface PosterDoc {
+  title: string;
+  subtitle?: string;
+  blocks: PosterBlock[];
+}
+
+/** A laid-out slice of a block that always stays on one page. */
+export interface PosterRow {
+  height: number;
+  /** Headings move to the next page together with what follows them. */
+  keepWithNext?: boolean;
+  draw: (ctx: CanvasRenderingContext2D, y: number) => void;
+}
+
+const MACROS: Array<{ key: keyof MacroValues; label: 'protein' | 'carb' | 'fat' }> = [
+  { key: 'p', label: 'protein' },
+  { key: 'c', label: 'carb' },
+  { key: 'f', label: 'fat' }
+];
+
+// One token per CJK character, so Chinese and Japanese wrap anywhere; other text wraps at spaces.
+const WRAP_TOKEN = /[\u3000-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u3000-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]+|\s+/g;
+
+function font(size: number, weight: 400 | 600 = 400): string {
+  return `${weight} ${size}px ${FONT_STACK}`;
+}
+
+/** Splits `text` into lines no wider than `maxWidth`; words longer than a line are broken between characters. */
+export function wrapText(measure: (s: string) => number, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  const push = () => {
+    if (line.trim()) lines.push(line.trimEnd());
+    line = '';
+  };
+  for (const token of text.match(WRAP_TOKEN) ?? []) {
+    if (!line && !token.trim()) continue;
+    if (measure(line + token) <= maxWidth) {
+      line += token;
+      continue;
+    }
+    push();
+    if (!token.trim()) continue;
+    for (const ch of token) {
+      if (line && measure(line + ch) > maxWidth) push();
+      line += ch;
+    }
+  }
+  push();
+  return lines.length ? lines : [''];
+}
+
+/** Groups rows into pages of at most `pageHeight`; a row taller than a page gets a page of its own. */
+export function paginate<T extends { height: number; keepWithNext?: boolean }>(rows: T[], pageHeight: number): T[][] {
+  const pages: T[][] = [[]];
+  let used = 0;
+  rows.forEach((row, i) => {
+    const next = row.keepWithNext ? rows[i + 1]?.height ?? 0 : 0;
+    if (pages[pages.length - 1].length && used + row.height + next > pageHeight) {
+      pages.push([]);
+      used = 0;
+    }
+    pages[pages.length - 1].push(row);
+    used += row.height;
+  });
+  return pages;
+}
+
+function macroRows(lang: Language, colors: PosterColors, actual: MacroValues, target: MacroValues): PosterRow {
+  const rowHeight = 46;
+  return {
+    height: rowHeight * 3 + 14,
+    draw: (ctx, y) => {
+      const barX = MARGIN + 190;
+      const barW = CONTENT_WIDTH - 190 - 270;
+      MACROS.forEach((m, i) => {
+        const top = y + i * rowHeight + 8;
+        const a = Math.max(0, actual[m.key]);
+        const goal = Math.max(0, target[m.key]);
+        const scale = Math.max(a, goal) * 1.1 || 1;
+        ctx.font = font(26, 600);
+        ctx.fillStyle = colors[m.label];
+        ctx.textAlign = 'left';
+        ctx.fillText(t(lang, m.label), MARGIN, top + 22);
+
+        ctx.fillStyle = colors.surface;
+        ctx.fillRect(barX, top, barW, 28);
+        ctx.fillStyle = colors[m.label];
+        ctx.fillRect(barX, top, (Math.min(a, goal) / scale) * barW, 28);
+        if (a > goal) {
+          ctx.fillStyle = colors.over;
+          ctx.fillRect(barX + (goal / scale) * barW, top, ((a - goal) / scale) * barW, 28);
+        }
+        const tick = barX + (goal / scale) * barW;
+        ctx.strokeStyle = colors.text;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.moveTo(tick, top - 6);
+        ctx.lineTo(tick, top + 34);
+        ctx.stroke();
+
+        ctx.font = font(24);
+        ctx.fillStyle = colors.text;
+        ctx.textAlign = 'right';
+        ctx.fillText(`${formatNumber(lang, a)} / ${formatNumber(lang, goal)} g`, POSTER_WIDTH - MARGIN, top + 22);
+      });
+      ctx.textAlign = 'left';
+    }
+  };
+}
+
+function chartRow(lang: Language, colors: PosterColors, days: ChartDay[]): PosterRow {
+  return {
+    height: 500,
+    draw: (ctx, y) => {
+      // Legend
+      let x = MARGIN;
+      ctx.font = font(22);
+      ctx.textAlign = 'left';
+      MACROS.forEach((m) => {
+        ctx.fillStyle = colors[m.label];
+        ctx.fillRect(x, y + 6, 20, 20);
+        ctx.fillStyle = colors.text;
+        const label = t(lang, m.label);
+        ctx.fillText(label, x + 28, y + 24);
+        x += 28 + ctx.measureText(label).width + 28;
+      });
+      ctx.fillStyle = colors.muted;
+      ctx.fillText(t(lang, 'poster.legend'), x + 12, y + 24);
+
+      const left = MARGIN + 70;
+      const right = POSTER_WIDTH - MARGIN;
+      const top = y + 60;
+      const bottom = y + 420;
+      const peak = Math.max(1, ...days.flatMap((d) => MACROS.flatMap((m) => [d.actual[m.key], d.target[m.key]])));
+      const step = Math.pow(10, Math.floor(Math.log10(peak)));
+      const max = Math.ceil((peak * 1.05) / (step / 2)) * (step / 2);
+      const yOf = (v: number) => bottom - (Math.max(0, v) / max) * (bottom - top);
+
+      ctx.font = font(20);
+      ctx.lineWidth = 1;
+      for (let i = 0; i <= 4; i += 1) {
+        const value = (max * i) / 4;
+        ctx.strokeStyle = colors.grid;
+        ctx.beginPath();
+        ctx.moveTo(left, yOf(value));
+        ctx.lineTo(right, yOf(value));
+        ctx.stroke();
+        ctx.fillStyle = colors.muted;
+        ctx.textAlign = 'right';
+        ctx.fillText(formatNumber(lang, value, 0), left - 10, yOf(value) + 7);
+      }
+
+      const groupW = (right - left) / Math.max(1, days.length);
+      const barW = Math.min(40, (groupW * 0.78) / 3);
+      days.forEach((d, i) => {
+        const start = left + i * groupW + (groupW - barW * 3) / 2;
+        MACROS.forEach((m, j) => {
+          const bx = start + j * barW;
+          ctx.fillStyle = colors[m.label];
+          ctx.fillRect(bx + 2, yOf(d.actual[m.key]), barW - 4, bottom - yOf(d.actual[m.key]));
+          ctx.strokeStyle = colors.text;
+          ctx.lineWidth = 2;
+          ctx.strokeRect(bx + 1, yOf(d.target[m.key]), barW - 2, bottom - yOf(d.target[m.key]));
+        });
+        const center = left + i * groupW + groupW / 2;
+        ctx.textAlign = 'center';
+        ctx.font = font(22, 600);
+        ctx.fillStyle = colors.text;
+        ctx.fillText(`D${d.day}`, center, bottom + 32);
+        ctx.font = font(18);
+        ctx.fillStyle = colors.muted;
+        ctx.fillText(d.label, center, bottom + 58);
+      });
+      ctx.textAlign = 'left';
+    }
+  };
+}
+
+function layoutRows(ctx: CanvasRenderingContext2D, blocks: PosterBlock[], lang: Language, colors: PosterColors): PosterRow[] {
+  const rows: PosterRow[] = [];
+  blocks.forEach((block) => {
+    switch (block.kind) {
+      case 'heading': {
+        const size = block.level === 2 ? 26 : 32;
+        ctx.font = font(size, 600);
+        const lines = wrapText((s) => ctx.measureText(s).width, block.text, CONTENT_WIDTH);
+        lines.forEach((line, i) => {
+          const first = i === 0 && block.level !== 2;
+          rows.push({
+            height: size + (first ? 30 : 14),
+            keepWithNext: true,
+            draw: (c, y) => {
+              c.font = font(size, 600);
+              c.fillStyle = colors.text;
+              c.fillText(line, MARGIN, y + size + (first ? 16 : 0));
+            }
+          });
+        });
+        break;
+      }
+      case 'text': {
+        const indent = block.check === undefined ? 0 : 40;
+        ctx.font = font(26);
+        const lines = wrapText((s) => ctx.measureText(s).width, block.text, CONTENT_WIDTH - indent);
+        const color = block.tone === 'warning' ? colors.over : block.tone === 'muted' || block.check ? colors.muted : colors.text;
+        lines.forEach((line, i) => {
+          rows.push({
+            height: 38,
+            draw: (c, y) => {
+              c.font = font(26);
+              c.fillStyle = color;
+              if (i === 0 && block.check !== undefined) {
+                c.strokeStyle = colors.muted;
+                c.lineWidth = 2;
+                c.strokeRect(MARGIN, y + 7, 24, 24);
+                if (block.check) c.fillText('✓', MARGIN + 3, y + 28);
+              }
+              c.fillText(line, MARGIN + indent, y + 28);
+            }
+          });
+        });
+        break;
+      }
+      case 'macros':
+        rows.push(macroRows(lang, colors, block.actual, block.target));
+        break;
+      case 'cycleChart':
+        rows.push(chartRow(lang, colors, block.days));
+        break;
+      case 'gap':
+        rows.push({ height: 20, draw: () => undefined });
+        break;
+    }
+  });
+  return rows;
+}
+
+export interface PosterOptions {
+  theme?: PosterTheme;
+  /** Page height in pixels; the width is always POSTER_WIDTH. */
+  height?: number;
+  format?: 'image/png' | 'image/jpeg';
+}
+
+/**
+ * Draws `doc` onto as many pages as it needs and returns one data URL per
+ * page. Every page repeats the title.
+ */
+export function renderPoster(doc: PosterDoc, lang: Language, options: PosterOptions = {}): string[] {
+  const height = options.height ?? POSTER_HEIGHT;
+  const canvas = document.createElement('canvas');
+  canvas.width = POSTER_WIDTH;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+  const colors = POSTER_THEMES[options.theme ?? 'light'] ?? POSTER_THEMES.light;
+  const pages = paginate(layoutRows(ctx, doc.blocks, lang, colors), height - CONTENT_TOP - MARGIN);
+
+  return pages.map((rows, index) => {
+    ctx.textAlign = 'left';
+    ctx.fillStyle = colors.background;
+    ctx.fillRect(0, 0, POSTER_WIDTH, height);
+
+    ctx.font = font(24);
+    ctx.fillStyle = colors.muted;
+    const pageLabel = pages.length > 1 ? t(lang, 'poster.page', { page: String(index + 1), total: String(pages.length) }) : '';
+    const pageLabelWidth = pageLabel ? ctx.measureText(pageLabel).width + 24 : 0;
+    if (pageLabel) {
+      ctx.textAlign = 'right';
+      ctx.fillText(pageLabel, POSTER_WIDTH - MARGIN, 88);
+      ctx.textAlign = 'left';
+    }
+    ctx.font = font(48, 600);
+    ctx.fillStyle = colors.text;
+    ctx.fillText(wrapText((s) => ctx.measureText(s).width, doc.title, CONTENT_WIDTH - pageLabelWidth)[0], MARGIN, 90);
+    if (doc.subtitle) {
+      ctx.font = font(28);
+      ctx.fillStyle = colors.muted;
+      ctx.fillText(wrapText((s) => ctx.measureText(s).width, doc.subtitle, CONTENT_WIDTH)[0], MARGIN, 140);
+    }
+    ctx.fillStyle = colors.grid;
+    ctx.fillRect(MARGIN, 168, CONTENT_WIDTH, 2);
+
+    let y = CONTENT_TOP;
+    rows.forEach((row) => {
+      row.draw(ctx, y);
+      y += row.height;
+    });
+    return canvas.toDataURL(options.format ?? 'image/png');
+  });
+}
+
+function macroTarget(target: DayTarget): MacroValues {
+  return { p: target.proteinTarget, c: target.carbTarget, f: target.fatTarget };
+}
+
+function deviationText(lang: Language, target: DayTarget, totals: DayTotals): string {
+  const dev = [totals.p - target.proteinTarget, totals.c - target.carbTarget, totals.f - target.fatTarget];
+  return `${t(lang, 'deviation')}: ${dev.map((d) => `${d > 0 ? '+' : ''}${formatNumber(lang, d)}`).join(' / ')} g`;
+}
+
+/** One day: macro bars against the target, deviations, nutrient warnings and the foods per meal. */
+export function dayPosterDoc(
+  lang: Language,
+  day: number,
+  target: DayTarget | undefined,
+  plan: DayPlan,
+  totals: DayTotals,
+  warnings: string[],
+  foodsMap: Map<string, FoodItem>
+): PosterDoc {
+  const blocks: PosterBlock[] = [];
+  if (target) {
+    blocks.push({ kind: 'heading', text: t(lang, 'poster.macros') });
+    blocks.push({ kind: 'macros', actual: totals, target: macroTarget(target) });
+    blocks.push({ kind: 'text', text: deviationText(lang, target, totals), tone: 'muted' });
+  }
+  warnings.forEach((w) => blocks.push({ kind: 'text', text: w, tone: 'warning' }));
+  blocks.push({ kind: 'gap' }, { kind: 'heading', text: t(lang, 'tab.foods') });
+
+  const meals = plan.meals.filter((m) => m.entries.length);
+  if (!meals.length) blocks.push({ kind: 'text', text: t(lang, 'poster.noFoods'), tone: 'muted' });
+  meals.forEach((meal) => {
+    if (plan.meals.length > 1) blocks.push({ kind: 'heading', text: meal.name, level: 2 });
+    meal.entries.forEach((e) => {
+      const food = foodsMap.get(e.foodId);
+      const name = food ? localName(lang, food) : e.foodId;
+      const m = computeTotals([e], foodsMap);
+      const macros = [m.p, m.c, m.f].map((n) => formatNumber(lang, n)).join('/');
+      blocks.push({ kind: 'text', text: `${name} (${t(lang, `basis.${e.basis}`)}) ${formatAmount(food, e, lang)} · P/C/F ${macros}` });
+    });
+  });
+
+  const subtitle = target
+    ? `${t(lang, `dayType.${target.dayType}`)} · ${formatNumber(lang, totals.kcal, 0)} kcal`
+    : `${formatNumber(lang, totals.kcal, 0)} kcal`;
+  return { title: t(lang, 'poster.dayTitle', { day: String(day) }), subtitle, blocks };
+}
+
+export interface PosterCycleDay {
+  target: DayTarget;
+  totals: DayTotals;
+  warnings: string[];
+}
+
+function cycleChart(lang: Language, days: PosterCycleDay[]): PosterBlock {
+  return {
+    kind: 'cycleChart',
+    days: days.map((d) => ({ day: d.target.day, label: t(lang, `dayType.${d.target.dayType}`), actual: d.totals, target: macroTarget(d.target) }))
+  };
+}
+
+/** The whole cycle: an overview chart, then macro bars and deviations per day. */
+export function cyclePosterDoc(
+  lang: Language,
+  profile: PlannerProfile,
+  weightKg: number,
+  cycle: { pDay: number; cTotal: number; fTotal: number },
+  days: PosterCycleDay[]
+): PosterDoc {
+  const blocks: PosterBlock[] = [
+    { kind: 'text', text: `${t(lang, 'cycleDays')}: ${profile.cycleDays}` },
+    {
+      kind: 'text',
+      text: `P_day=${formatNumber(lang, cycle.pDay)} g · C_total=${formatNumber(lang, cycle.cTotal)} g · F_total=${formatNumber(lang, cycle.fTotal)} g`
+    },
+    { kind: 'gap' },
+    { kind: 'heading', text: t(lang, 'poster.cycleOverview') },
+    cycleChart(lang, days),
+    { kind: 'heading', text: t(lang, 'poster.targetsAndDeviations') }
+  ];
+  days.forEach((d) => {
+    blocks.push({ kind: 'heading', text: `D${d.target.day} · ${t(lang, `dayType.${d.target.dayType}`)}`, level: 2 });
+    blocks.push({ kind: 'macros', actual: d.totals, target: macroTarget(d.target) });
+    blocks.push({ kind: 'text', text: deviationText(lang, d.target, d.totals), tone: 'muted' });
+    d.warnings.forEach((w) => blocks.push({ kind: 'text', text: w, tone: 'warning' }));
+  });
+
+  const subtitle = `${t(lang, 'weight')}: ${formatNumber(lang, weightKg, 2)} · ${t(lang, 'bodyType')}: ${bodyTypeName(bodyTypeRule(profile), lang)}`;
+  return { title: t(lang, 'poster.cycleTitle'), subtitle, blocks };
+}
+
+/** Cover page of the PDF export: profile settings, cycle totals and the overview chart. */
+export function coverPosterDoc(
+  lang: Language,
+  profileName: string,
+  profile: PlannerProfile,
+  weightKg: number,
+  cycle: { pDay: number; cTotal: number; fTotal: number },
+  days: PosterCycleDay[]
+): PosterDoc {
+  const sex = profile.sex === 'Female' || profile.sex === 'Male' || profile.sex === 'Other' ? t(lang, `sex.${profile.sex}`) : profile.sex;
+  const activity = ACTIVITY_FACTORS.find((a) => a.value === profile.activityFactor);
+  const line = (label: string, value: string): PosterBlock => ({ kind: 'text', text: `${label}: ${value}` });
+  const blocks: PosterBlock[] = [
+    { kind: 'heading', text: t(lang, 'pdf.profile') },
+    line(t(lang, 'sex'), sex),
+    line(t(lang, 'age'), formatNumber(lang, profile.ageYears, 0)),
+    line(t(lang, 'height'), formatNumber(lang, profile.heightCm)),
+    line(t(lang, 'weight'), formatNumber(lang, weightKg, 2))
+  ];
+  if (profile.bodyFatPct) blocks.push(line(t(lang, 'pdf.bodyFat'), `${formatNumber(lang, profile.bodyFatPct)} %`));
+  blocks.push(
+    line(t(lang, 'bodyType'), bodyTypeName(bodyTypeRule(profile), lang)),
+    line(t(lang, 'proteinPerKg'), formatNumber(lang, profile.proteinPerKg, 2)),
+    line(t(lang, 'targetMode'), t(lang, profile.targetMode === 'energy' ? 'modeEnergy' : 'modePerKg'))
+  );
+  if (profile.targetMode === 'energy') {
+    blocks.push(
+      line(t(lang, 'activity'), activity ? t(lang, activity.label) : formatNumber(lang, profile.activityFactor, 3)),
+      line(t(lang, 'goal'), `${t(lang, `goal.${profile.goal}`)} (${formatNumber(lang, profile.goalPct)} %)`)
+    );
+  }
+  blocks.push(line(t(lang, 'cycleDays'), String(profile.cycleDays)), line(t(lang, 'cycleStart'), profile.cycleStartDate));
+
+  const kcal = cycle.pDay * profile.cycleDays * 4 + cycle.cTotal * 4 + cycle.fTotal * 9;
+  blocks.push(
+    { kind: 'gap' },
+    { kind: 'heading', text: t(lang, 'pdf.cycleTotals') },
+    { kind: 'text', text: `P_day=${formatNumber(lang, cycle.pDay)} g · C_total=${formatNumber(lang, cycle.cTotal)} g · F_total=${formatNumber(lang, cycle.fTotal)} g` },
+    { kind: 'text', text: t(lang, 'pdf.cycleEnergy', { kcal: formatNumber(lang, kcal, 0) }) },
+    { kind: 'gap' },
+    { kind: 'heading', text: t(lang, 'poster.cycleOverview') },
+    cycleChart(lang, days)
+  );
+  return { title: t(lang, 'pdf.title'), subtitle: profileName, blocks };
+}
+
+/** Shopping list grouped by category, with checked-off items ticked. */
+export function shoppingPosterDoc(lang: Language, title: string, items: ShoppingItem[], checked: string[]): PosterDoc {
+  const blocks: PosterBlock[] = [];
+  CATEGORY_ORDER.forEach((category) => {
+    const group = items.filter((i) => i.category === category);
+    if (!group.length) return;
+    if (blocks.length) blocks.push({ kind: 'gap' });
+    blocks.push({ kind: 'heading', text: t(lang, `cat.${category}`) });
+    group.forEach((i) =>
+      blocks.push({
+        kind: 'text',
+        text: `${localName(lang, i)} — ${formatNumber(lang, i.grams, 2)} g ${t(lang, `basis.${i.basis}`)}`,
+        check: checked.includes(i.key)
+      })
+    );
+  });
+  if (!items.length) blocks.push({ kind: 'text', text: t(lang, 'shopping.empty'), tone: 'muted' });
+  return { title: t(lang, 'shopping'), subtitle: title, blocks };
+}
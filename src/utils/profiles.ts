@@ -0,0 +1,69 @@
+import { idbDelete, idbGet, idbSet } from './storage';
+
+export interface ProfileMeta {
+  id: string;
+  name: string;
+}
+
+export interface ProfileRegistry {
+  activeId: string;
+  profiles: ProfileMeta[];
+}
+
+export const PROFILES_KEY = 'cc_profiles_v2';
+export const DEFAULT_PROFILE_ID = 'default';
+
+/** Storage key of a per-profile value, e.g. `cc_day_plans_v2@default`. */
+export function profileKey(key: string, profileId: string): string {
+  return `${key}@${profileId}`;
+}
+
+export function newProfileId(): string {
+  return `profile_${Date.now()}`;
+}
+
+/** `name`, or `name (2)`, `name (3)`, ... when it is already taken. */
+export function uniqueProfileName(name: string, profiles: ProfileMeta[]): string {
+  const base = name.trim() || 'Profile';
+  const taken = new Set(profiles.map((p) => p.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} (${n})`)) n += 1;
+  return `${base} (${n})`;
+}
+
+function isRegistry(v: unknown): v is ProfileRegistry {
+  if (typeof v !== 'object' || v === null) return false;
+  const r = v as ProfileRegistry;
+  return (
+    typeof r.activeId === 'string' &&
+    Array.isArray(r.profiles) &&
+    r.profiles.length > 0 &&
+    r.profiles.every((p) => typeof p?.id === 'string' && typeof p?.name === 'string')
+  );
+}
+
+/**
+ * Reads the profile list. The first time it is missing, single-profile data
+ * under the plain `scopedKeys` is copied into a "Default" profile.
+ */
+export async function loadRegistry(scopedKeys: string[]): Promise<ProfileRegistry> {
+  const saved = await idbGet<unknown>(PROFILES_KEY, undefined);
+  if (isRegistry(saved)) {
+    const active = saved.profiles.some((p) => p.id === saved.activeId) ? saved.activeId : saved.profiles[0].id;
+    return { ...saved, activeId: active };
+  }
+  await Promise.all(
+    scopedKeys.map(async (key) => {
+      const value = await idbGet<unknown>(key, undefined);
+      if (value !== undefined) await idbSet(profileKey(key, DEFAULT_PROFILE_ID), value);
+    })
+  );
+  const registry: ProfileRegistry = { activeId: DEFAULT_PROFILE_ID, profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Default' }] };
+  await idbSet(PROFILES_KEY, registry);
+  return registry;
+}
+
+export async function deleteProfileData(scopedKeys: string[], profileId: string): Promise<void> {
+  await Promise.all(scopedKeys.map((key) => idbDelete(profileKey(key, profileId))));
+}
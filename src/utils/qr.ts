@@ -0,0 +1,355 @@
+// QR Code Model 2 encoder (ISO/IEC 18004), byte mode only. Written after
+// Project Nayuki's reference implementation so links can be encoded offline.
+
+export type QrErrorLevel = 'L' | 'M';
+
+// Indexed by version (1..40); index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28]
+};
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49]
+};
+const FORMAT_BITS: Record<QrErrorLevel, number> = { L: 1, M: 0 };
+
+const MASK_PATTERNS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+function bit(x: number, i: number): boolean {
+  return ((x >>> i) & 1) !== 0;
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: QrErrorLevel): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  data.forEach((b) => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  });
+  return result;
+}
+
+function withErrorCorrection(data: number[], version: number, level: QrErrorLevel): number[] {
+  const numBlocks = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLen = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = rsDivisor(eccLen);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i += 1) {
+    const dat = data.slice(k, k + shortBlockLen - eccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push([...dat, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks.
+      if (i !== shortBlockLen - eccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 17 - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+interface QrGrid {
+  version: number;
+  level: QrErrorLevel;
+  size: number;
+  modules: boolean[][];
+  /** Finder, timing, alignment, format and version modules, which masks leave alone. */
+  isFunction: boolean[][];
+}
+
+function createGrid(version: number, level: QrErrorLevel): QrGrid {
+  const size = version * 4 + 17;
+  const grid: QrGrid = {
+    version,
+    level,
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  };
+  drawFunctionPatterns(grid);
+  return grid;
+}
+
+function setFunction(g: QrGrid, x: number, y: number, dark: boolean) {
+  g.modules[y][x] = dark;
+  g.isFunction[y][x] = true;
+}
+
+function drawFunctionPatterns(g: QrGrid) {
+  for (let i = 0; i < g.size; i += 1) {
+    setFunction(g, 6, i, i % 2 === 0);
+    setFunction(g, i, 6, i % 2 === 0);
+  }
+  [
+    [3, 3],
+    [g.size - 4, 3],
+    [3, g.size - 4]
+  ].forEach(([x, y]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < g.size && yy >= 0 && yy < g.size) setFunction(g, xx, yy, dist !== 2 && dist !== 4);
+      }
+    }
+  });
+  const align = alignmentPositions(g.version);
+  align.forEach((ay, i) =>
+    align.forEach((ax, j) => {
+      const last = align.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) setFunction(g, ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    })
+  );
+  drawFormatBits(g, 0);
+  drawVersion(g);
+}
+
+function drawFormatBits(g: QrGrid, mask: number) {
+  const data = (FORMAT_BITS[g.level] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i += 1) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  for (let i = 0; i <= 5; i += 1) setFunction(g, 8, i, bit(bits, i));
+  setFunction(g, 8, 7, bit(bits, 6));
+  setFunction(g, 8, 8, bit(bits, 7));
+  setFunction(g, 7, 8, bit(bits, 8));
+  for (let i = 9; i < 15; i += 1) setFunction(g, 14 - i, 8, bit(bits, i));
+  for (let i = 0; i < 8; i += 1) setFunction(g, g.size - 1 - i, 8, bit(bits, i));
+  for (let i = 8; i < 15; i += 1) setFunction(g, 8, g.size - 15 + i, bit(bits, i));
+  setFunction(g, 8, g.size - 8, true);
+}
+
+function drawVersion(g: QrGrid) {
+  if (g.version < 7) return;
+  let rem = g.version;
+  for (let i = 0; i < 12; i += 1) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  const bits = (g.version << 12) | rem;
+  for (let i = 0; i < 18; i += 1) {
+    const a = g.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunction(g, a, b, bit(bits, i));
+    setFunction(g, b, a, bit(bits, i));
+  }
+}
+
+function drawCodewords(g: QrGrid, data: number[]) {
+  let i = 0;
+  for (let right = g.size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < g.size; vert += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? g.size - 1 - vert : vert;
+        if (!g.isFunction[y][x] && i < data.length * 8) {
+          g.modules[y][x] = bit(data[i >>> 3], 7 - (i & 7));
+          i += 1;
+        }
+      }
+    }
+  }
+}
+
+/** XORs the mask pattern over the data area; applying it twice undoes it. */
+function applyMask(g: QrGrid, mask: number) {
+  for (let y = 0; y < g.size; y += 1) {
+    for (let x = 0; x < g.size; x += 1) {
+      const invert = MASK_PATTERNS[mask](x, y);
+      if (!g.isFunction[y][x] && invert) g.modules[y][x] = !g.modules[y][x];
+    }
+  }
+}
+
+function finderRuns(history: number[]): number {
+  const n = history[1];
+  const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+  return (core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) + (core && history[6] >= n * 4 && history[0] >= n ? 1 : 0);
+}
+
+function addRun(g: QrGrid, length: number, history: number[]) {
+  // The light border before the first run counts towards it.
+  history.pop();
+  history.unshift(history[0] === 0 ? length + g.size : length);
+}
+
+/** Spec penalty score; the mask with the lowest one is used. */
+function penalty(g: QrGrid): number {
+  let result = 0;
+  const line = (get: (i: number) => boolean) => {
+    let runDark = false;
+    let run = 0;
+    const history = [0, 0, 0, 0, 0, 0, 0];
+    for (let i = 0; i < g.size; i += 1) {
+      if (get(i) === runDark) {
+        run += 1;
+        if (run === 5) result += 3;
+        else if (run > 5) result += 1;
+      } else {
+        addRun(g, run, history);
+        if (!runDark) result += finderRuns(history) * 40;
+        runDark = get(i);
+        run = 1;
+      }
+    }
+    if (runDark) {
+      addRun(g, run, history);
+      run = 0;
+    }
+    addRun(g, run + g.size, history);
+    result += finderRuns(history) * 40;
+  };
+  for (let y = 0; y < g.size; y += 1) line((x) => g.modules[y][x]);
+  for (let x = 0; x < g.size; x += 1) line((y) => g.modules[y][x]);
+
+  let dark = 0;
+  for (let y = 0; y < g.size; y += 1) {
+    for (let x = 0; x < g.size; x += 1) {
+      const c = g.modules[y][x];
+      if (c) dark += 1;
+      if (x < g.size - 1 && y < g.size - 1 && c === g.modules[y][x + 1] && c === g.modules[y + 1][x] && c === g.modules[y + 1][x + 1]) {
+        result += 3;
+      }
+    }
+  }
+  const total = g.size * g.size;
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return result;
+}
+
+/**
+ * Encodes `text` as UTF-8 in the smallest version that fits, preferring level
+ * M and falling back to L for long input. Returns rows of modules (true = dark),
+ * or undefined when the text is too long for any QR code.
+ */
+export function encodeQr(text: string): boolean[][] | undefined {
+  const bytes = [...new TextEncoder().encode(text)];
+  for (const level of ['M', 'L'] as QrErrorLevel[]) {
+    for (let version = 1; version <= 40; version += 1) {
+      const capacity = dataCodewords(version, level) * 8;
+      const countBits = version <= 9 ? 8 : 16;
+      if (bytes.length >= 1 << countBits || 4 + countBits + bytes.length * 8 > capacity) continue;
+
+      const bits: number[] = [];
+      const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+      };
+      append(0b0100, 4);
+      append(bytes.length, countBits);
+      bytes.forEach((b) => append(b, 8));
+      append(0, Math.min(4, capacity - bits.length));
+      append(0, (8 - (bits.length % 8)) % 8);
+      for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+      const data: number[] = [];
+      for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+
+      const grid = createGrid(version, level);
+      drawCodewords(grid, withErrorCorrection(data, version, level));
+      let best = 0;
+      let bestScore = Infinity;
+      for (let mask = 0; mask < 8; mask += 1) {
+        applyMask(grid, mask);
+        drawFormatBits(grid, mask);
+        const score = penalty(grid);
+        if (score < bestScore) {
+          best = mask;
+          bestScore = score;
+        }
+        applyMask(grid, mask);
+      }
+      applyMask(grid, best);
+      drawFormatBits(grid, best);
+      return grid.modules;
+    }
+  }
+  return undefined;
+}
+
+/** PNG data URL of a QR code with the standard four-module quiet zone. */
+export function qrDataUrl(modules: boolean[][], scale = 6): string {
+  const quiet = 4;
+  const size = (modules.length + quiet * 2) * scale;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+  ctx.fillStyle = '#000000';
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) ctx.fillRect((x + quiet) * scale, (y + quiet) * scale, scale, scale);
+    })
+  );
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,42 @@
+import type { DayFoodEntry, FoodItem, FoodVariant, Recipe } from '../types';
+import { round2 } from './calc';
+import { NUTRIENT_KEYS } from './nutrients';
+import { computeTotals } from './solver';
+
+/**
+ * Derives a per-100 g food from a recipe's ingredients and cooked weight, so
+ * it picks up any later change to the ingredient foods.
+ */
+export function recipeToFood(recipe: Recipe, foodsMap: Map<string, FoodItem>): FoodItem {
+  const totals = computeTotals(recipe.ingredients, foodsMap);
+  const scale = recipe.cookedWeightG > 0 ? 100 / recipe.cookedWeightG : 0;
+  const variant: FoodVariant = {
+    basis: 'cooked',
+    kcal: round2(totals.kcal * scale),
+    p: round2(totals.p * scale),
+    c: round2(totals.c * scale),
+    f: round2(totals.f * scale)
+  };
+  for (const k of NUTRIENT_KEYS) {
+    if (totals[k] !== undefined && !totals.incomplete.includes(k)) variant[k] = round2(totals[k] * scale);
+  }
+  return {
+    id: recipe.id,
+    name_en: recipe.name_en,
+    name_zh: recipe.name_zh,
+    category: recipe.category,
+    emoji: '🍲',
+    variants: [variant],
+    recipeId: recipe.id
+  };
+}
+
+/** Ingredient amounts that make up `entry.grams` of the cooked recipe. */
+export function expandRecipeEntry(entry: DayFoodEntry, recipe: Recipe): DayFoodEntry[] {
+  const ratio = recipe.cookedWeightG > 0 ? Math.max(0, entry.grams) / recipe.cookedWeightG : 0;
+  return recipe.ingredients.map((i) => ({ foodId: i.foodId, basis: i.basis, grams: round2(i.grams * ratio) }));
+}
+
+export function rawWeightOf(recipe: Recipe): number {
+  return round2(recipe.ingredients.reduce((s, i) => s + Math.max(0, i.grams), 0));
+}
@@ -0,0 +1,105 @@
+import type { DayPlan, FoodItem, Language, PlannerProfile, Recipe } from '../types';
+import { t } from '../i18n';
+import { calculateCycle } from './calc';
+import { SCHEMA_VERSION, loadData, type AppData, type LoadResult } from './backup';
+import { dayEntries } from './meals';
+
+/**
+ * Link format history:
+ * 1 — `#share=1.<base64url of deflate-raw JSON>`; the JSON carries the data schema version.
+ */
+export const SHARE_VERSION = 1;
+const FRAGMENT_PREFIX = '#share=';
+
+export interface SharePayload {
+  profile: PlannerProfile;
+  dayPlans: Record<number, DayPlan>;
+  /** Only the custom foods and recipes the plans use. */
+  customFoods: FoodItem[];
+  recipes: Recipe[];
+}
+
+/** The profile and plans plus whatever custom foods and recipes (and their ingredients) they reference. */
+export function buildSharePayload(
+  profile: PlannerProfile,
+  dayPlans: Record<number, DayPlan>,
+  customFoods: FoodItem[],
+  recipes: Recipe[]
+): SharePayload {
+  const used = new Set(Object.values(dayPlans).flatMap((plan) => dayEntries(plan).map((e) => e.foodId)));
+  const usedRecipes = recipes.filter((r) => used.has(r.id));
+  usedRecipes.forEach((r) => r.ingredients.forEach((i) => used.add(i.foodId)));
+  // Cycle history and per-cycle weights describe the sender's past, not the plan.
+  const { cycleHistory: _history, cycleWeights: _weights, ...shared } = profile;
+  return { profile: shared, dayPlans, customFoods: customFoods.filter((f) => used.has(f.id)), recipes: usedRecipes };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+export function canShare(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/** `baseUrl` with the payload compressed into its fragment, so it never reaches a server. */
+export async function createShareLink(baseUrl: string, payload: SharePayload): Promise<string> {
+  const json = JSON.stringify({ schemaVersion: SCHEMA_VERSION, data: payload });
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `${baseUrl.split('#')[0]}${FRAGMENT_PREFIX}${SHARE_VERSION}.${toBase64Url(compressed)}`;
+}
+
+export function isShareFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX);
+}
+
+/**
+ * Decodes a `#share=` fragment and validates it like a backup. Unlike a
+ * backup, nothing is repaired: a link with any invalid value is refused.
+ * Throws with a readable message for damaged links and for link or data
+ * versions this build does not understand.
+ */
+export async function readShareFragment(hash: string, defaults: AppData, lang: Language = 'en'): Promise<LoadResult> {
+  const body = hash.slice(FRAGMENT_PREFIX.length);
+  const dot = body.indexOf('.');
+  const version = Number(body.slice(0, dot));
+  if (dot < 1 || !Number.isInteger(version)) throw new Error(t(lang, 'share.corrupt'));
+  if (version > SHARE_VERSION) throw new Error(t(lang, 'share.newer', { version: String(version) }));
+  if (version < SHARE_VERSION) throw new Error(t(lang, 'share.unsupported', { version: String(version) }));
+  if (!canShare()) throw new Error(t(lang, 'share.unavailable'));
+
+  let parsed: { schemaVersion?: unknown; data?: unknown };
+  try {
+    const bytes = await transform(fromBase64Url(decodeURIComponent(body.slice(dot + 1))), new DecompressionStream('deflate-raw'));
+    parsed = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error(t(lang, 'share.corrupt'));
+  }
+  const schema = typeof parsed?.schemaVersion === 'number' ? parsed.schemaVersion : NaN;
+  if (!parsed?.data || typeof parsed.data !== 'object' || !Number.isInteger(schema) || schema < 1) throw new Error(t(lang, 'share.corrupt'));
+  if (schema > SCHEMA_VERSION) throw new Error(t(lang, 'share.newer', { version: `${version}/${schema}` }));
+  const data = parsed.data as Record<string, unknown>;
+  if (typeof data.profile !== 'object' || data.profile === null) throw new Error(t(lang, 'share.corrupt'));
+  const result = loadData({ profile: data.profile, dayPlans: data.dayPlans, customFoods: data.customFoods, recipes: data.recipes }, schema, defaults, lang);
+  // Links are only made from a profile without validation errors, so anything repaired or dropped means the link was damaged or tampered with.
+  if (result.issues.length) throw new Error(t(lang, 'share.corrupt'));
+  try {
+    calculateCycle(result.data.profile);
+  } catch {
+    throw new Error(t(lang, 'share.corrupt'));
+  }
+  return result;
+}
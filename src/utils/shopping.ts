@@ -0,0 +1,79 @@
+import type { Basis, Category, DayFoodEntry, DayPlan, FoodItem, PlannerProfile, Recipe } from '../types';
+import { addDays, cycleDayForDate, daysBetween } from './calendar';
+import { round2 } from './calc';
+import { dayEntries } from './meals';
+import { expandRecipeEntry } from './recipes';
+import { rawEquivalent } from './yields';
+
+export interface ShoppingItem {
+  /** `foodId:basis`; also the key used for checking items off. */
+  key: string;
+  foodId: string;
+  name_en: string;
+  name_zh: string;
+  category: Category;
+  /** Basis the amount is given in: raw when a cooked amount could be converted. */
+  basis: Basis;
+  grams: number;
+  /** Number of planned days that use the food. */
+  days: number;
+}
+
+export const CATEGORY_ORDER: Category[] = ['protein', 'carb', 'fat', 'veg', 'fruit', 'dairy', 'other'];
+
+/** A yield is known when it is set explicitly or both raw and cooked data exist. */
+function hasKnownYield(food: FoodItem): boolean {
+  if (food.yieldRatio && food.yieldRatio > 0) return true;
+  const raw = food.variants.find((v) => v.basis === 'raw')?.kcal;
+  const cooked = food.variants.find((v) => v.basis === 'cooked')?.kcal;
+  return !!raw && !!cooked;
+}
+
+/** Plans to shop for over the whole cycle: each planned cycle day once. */
+export function cyclePlans(dayPlans: Record<number, DayPlan>, cycleDays: number): DayPlan[] {
+  return Array.from({ length: cycleDays }, (_, i) => dayPlans[i + 1]).filter((p): p is DayPlan => !!p);
+}
+
+/** Plans to shop for between two dates (inclusive), following the calendar's cycle mapping. */
+export function rangePlans(profile: PlannerProfile, dayPlans: Record<number, DayPlan>, from: string, to: string): DayPlan[] {
+  const count = daysBetween(from, to) + 1;
+  const out: DayPlan[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const mapped = cycleDayForDate(profile, addDays(from, i));
+    const plan = mapped ? dayPlans[mapped.day] : undefined;
+    if (plan) out.push(plan);
+  }
+  return out;
+}
+
+/**
+ * Totals the planned amounts per food. Recipes are bought as their
+ * ingredients, and cooked amounts become raw purchase weight when the yield is known.
+ */
+export function buildShoppingList(plans: DayPlan[], foodsMap: Map<string, FoodItem>, recipes: Map<string, Recipe>): ShoppingItem[] {
+  const items = new Map<string, ShoppingItem>();
+  plans.forEach((plan) => {
+    const seen = new Set<string>();
+    const add = (e: DayFoodEntry) => {
+      const food = foodsMap.get(e.foodId);
+      if (!food || e.grams <= 0) return;
+      const toRaw = e.basis === 'cooked' && hasKnownYield(food);
+      const basis: Basis = toRaw ? 'raw' : e.basis;
+      const grams = toRaw ? rawEquivalent(food, e.grams, e.basis) : e.grams;
+      const key = `${food.id}:${basis}`;
+      const item = items.get(key) ?? { key, foodId: food.id, name_en: food.name_en, name_zh: food.name_zh, category: food.category, basis, grams: 0, days: 0 };
+      item.grams += grams;
+      if (!seen.has(key)) item.days += 1;
+      seen.add(key);
+      items.set(key, item);
+    };
+    dayEntries(plan).forEach((e) => {
+      const recipe = recipes.get(e.foodId);
+      if (recipe) expandRecipeEntry(e, recipe).forEach(add);
+      else add(e);
+    });
+  });
+  return [...items.values()]
+    .map((item) => ({ ...item, grams: round2(item.grams) }))
+    .sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || a.name_en.localeCompare(b.name_en));
+}
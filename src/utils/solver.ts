@@ -1,15 +1,63 @@
-import type { Basis, DayFoodEntry, DayTotals, FoodItem } from '../types';
+import type { Basis, DayFoodEntry, DayTotals, FoodItem, NutrientKey } from '../types';
 import { round2 } from './calc';
+import { NUTRIENT_KEYS } from './nutrients';
+import { portionStep } from './units';
 
-function getVariant(food: FoodItem, basis: Basis) {
+export type MacroKey = 'p' | 'c' | 'f';
+
+export type MacroTarget = Record<MacroKey, number>;
+
+export interface SolveOptions {
+  /** Relative weight of each macro's squared deviation. */
+  weights?: Partial<MacroTarget>;
+  /** A deviation at or below this many grams per macro counts as reached. */
+  tolerance?: number;
+}
+
+export interface SolveResult {
+  entries: DayFoodEntry[];
+  totals: DayTotals;
+  /** target minus achieved, per macro, after rounding the grams. */
+  residual: MacroTarget;
+  /** True when every macro is within tolerance; otherwise the entries are the best achievable. */
+  exact: boolean;
+}
+
+const MACROS: MacroKey[] = ['p', 'c', 'f'];
+const DEFAULT_WEIGHTS: MacroTarget = { p: 1, c: 1, f: 1 };
+const DEFAULT_TOLERANCE = 1;
+// Tiny ridge term: keeps the problem strictly convex and spreads grams across
+// foods with similar profiles instead of dumping everything on one of them.
+const RIDGE = 1e-4;
+const MAX_SWEEPS = 20000;
+const CONVERGED_STEP = 1e-7;
+
+export function getVariant(food: FoodItem, basis: Basis) {
   return food.variants.find((v) => v.basis === basis) ?? food.variants[0];
 }
 
+/**
+ * Solver bounds for an entry in grams; a locked entry is pinned to its current
+ * amount. Without an explicit step, portion-based amounts round to whole portions.
+ */
+export function entryBounds(e: DayFoodEntry, food?: FoodItem): { min: number; max: number; step: number } {
+  if (e.locked) {
+    const grams = Math.max(0, e.grams || 0);
+    return { min: grams, max: grams, step: 0 };
+  }
+  const min = Math.max(0, e.minGrams ?? 0);
+  const max = Math.max(min, e.maxGrams ?? Infinity);
+  const step = e.stepGrams && e.stepGrams > 0 ? e.stepGrams : portionStep(food, e);
+  return { min, max, step };
+}
+
 export function computeTotals(entries: DayFoodEntry[], foodsMap: Map<string, FoodItem>): DayTotals {
   let kcal = 0;
   let p = 0;
   let c = 0;
   let f = 0;
+  const extra = Object.fromEntries(NUTRIENT_KEYS.map((k) => [k, 0])) as Record<NutrientKey, number>;
+  const incomplete = new Set<NutrientKey>();
   for (const e of entries) {
     const food = foodsMap.get(e.foodId);
     if (!food) continue;
@@ -19,85 +67,128 @@ export function computeTotals(entries: DayFoodEntry[], foodsMap: Map<string, Foo
     p += v.p * ratio;
     c += v.c * ratio;
     f += v.f * ratio;
+    for (const k of NUTRIENT_KEYS) {
+      // A missing value is unknown, not zero.
+      if (v[k] === undefined) {
+        if (ratio > 0) incomplete.add(k);
+      } else {
+        extra[k] += v[k] * ratio;
+      }
+    }
   }
-  return { kcal: round2(kcal), p: round2(p), c: round2(c), f: round2(f) };
+  for (const k of NUTRIENT_KEYS) extra[k] = round2(extra[k]);
+  return { kcal: round2(kcal), p: round2(p), c: round2(c), f: round2(f), ...extra, incomplete: NUTRIENT_KEYS.filter((k) => incomplete.has(k)) };
 }
 
-function score(target: { p: number; c: number; f: number }, totals: DayTotals): number {
-  return Math.abs(target.p - totals.p) + Math.abs(target.c - totals.c) + Math.abs(target.f - totals.f);
+function objective(columns: MacroTarget[], target: MacroTarget, weights: MacroTarget, x: number[]): number {
+  return MACROS.reduce((s, m) => {
+    const d = x.reduce((acc, v, j) => acc + columns[j][m] * v, 0) - target[m];
+    return s + weights[m] * d * d;
+  }, 0);
+}
+
+/**
+ * Minimises the weighted squared P/C/F deviation over all entries at once,
+ * subject to per-entry bounds, by projected coordinate descent on the (convex)
+ * quadratic. Variables are in units of 100 g so they line up with the
+ * per-100 g food data.
+ */
+function minimise(
+  columns: MacroTarget[],
+  target: MacroTarget,
+  weights: MacroTarget,
+  start: number[],
+  lower: number[],
+  upper: number[]
+): number[] {
+  const x = start.map((v, j) => Math.min(upper[j], Math.max(lower[j], v)));
+  const residual: MacroTarget = { p: -target.p, c: -target.c, f: -target.f };
+  x.forEach((v, j) => {
+    for (const m of MACROS) residual[m] += columns[j][m] * v;
+  });
+
+  const curvature = columns.map((a) => MACROS.reduce((s, m) => s + weights[m] * a[m] * a[m], 0) + RIDGE);
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep += 1) {
+    let maxStep = 0;
+    for (let j = 0; j < x.length; j += 1) {
+      if (lower[j] === upper[j]) continue;
+      const a = columns[j];
+      const gradient = MACROS.reduce((s, m) => s + weights[m] * a[m] * residual[m], 0) + RIDGE * x[j];
+      const next = Math.min(upper[j], Math.max(lower[j], x[j] - gradient / curvature[j]));
+      const step = next - x[j];
+      if (step === 0) continue;
+      for (const m of MACROS) residual[m] += a[m] * step;
+      x[j] = next;
+      maxStep = Math.max(maxStep, Math.abs(step));
+    }
+    if (maxStep < CONVERGED_STEP) break;
+  }
+  return x;
 }
 
-export function greedyGenerate(
+export function solveMacros(
   selected: DayFoodEntry[],
   foodsMap: Map<string, FoodItem>,
-  target: { p: number; c: number; f: number }
-): DayFoodEntry[] {
-  const entries = selected.map((e) => ({ ...e, grams: Math.max(0, e.grams || 0) }));
-  const proteins = entries.filter((e) => {
-    const food = foodsMap.get(e.foodId);
-    return food?.category === 'protein';
-  });
-  const carbs = entries.filter((e) => {
-    const food = foodsMap.get(e.foodId);
-    return food?.category === 'carb';
-  });
-  const fats = entries.filter((e) => {
+  target: MacroTarget,
+  options: SolveOptions = {}
+): SolveResult {
+  const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+
+  const columns = selected.map((e) => {
     const food = foodsMap.get(e.foodId);
-    return food?.category === 'fat';
+    const v = food ? getVariant(food, e.basis) : undefined;
+    return { p: v?.p ?? 0, c: v?.c ?? 0, f: v?.f ?? 0 };
   });
+  const bounds = selected.map((e) => entryBounds(e, foodsMap.get(e.foodId)));
+  const start = selected.map((e) => Math.max(0, e.grams || 0) / 100);
+  const lower = bounds.map((b) => b.min / 100);
+  const upper = bounds.map((b) => b.max / 100);
 
-  const assign = (group: DayFoodEntry[], macro: 'p' | 'c' | 'f', needed: number) => {
-    if (!group.length || needed <= 0) return;
-    const sorted = [...group]
-      .map((e) => {
-        const food = foodsMap.get(e.foodId)!;
-        const v = getVariant(food, e.basis);
-        return { e, density: v[macro] };
-      })
-      .filter((x) => x.density > 0)
-      .sort((a, b) => b.density - a.density);
-
-    let remaining = needed;
-    for (const item of sorted) {
-      if (remaining <= 0) break;
-      const grams = Math.max(0, (remaining / item.density) * 100);
-      item.e.grams += grams;
-      remaining -= item.density * (grams / 100);
-    }
-  };
+  let x = minimise(columns, target, weights, start, lower, upper);
 
-  assign(proteins, 'p', target.p * 0.7);
-  assign(carbs, 'c', target.c * 0.7);
-  assign(fats, 'f', target.f * 0.7);
-
-  const step = 5;
-  for (let i = 0; i < 1500; i += 1) {
-    const baseTotals = computeTotals(entries, foodsMap);
-    const baseScore = score(target, baseTotals);
-    if (baseScore < 1) break;
-
-    let bestScore = baseScore;
-    let bestIdx = -1;
-    let bestDelta = 0;
-
-    for (let idx = 0; idx < entries.length; idx += 1) {
-      for (const delta of [step, -step]) {
-        if (entries[idx].grams + delta < 0) continue;
-        const original = entries[idx].grams;
-        entries[idx].grams += delta;
-        const s = score(target, computeTotals(entries, foodsMap));
-        entries[idx].grams = original;
-        if (s < bestScore - 1e-9) {
-          bestScore = s;
-          bestIdx = idx;
-          bestDelta = delta;
-        }
+  // Stepped entries (whole eggs, scoops, ...) are fixed one at a time to the
+  // neighbouring multiple that scores better, re-solving the rest each time.
+  bounds.forEach((b, j) => {
+    if (!b.step) return;
+    const step = b.step / 100;
+    const lowest = Math.ceil(lower[j] / step - 1e-9) * step;
+    const highest = Math.floor(upper[j] / step + 1e-9) * step;
+    if (lowest > highest) return;
+    const candidates = [Math.floor(x[j] / step) * step, Math.ceil(x[j] / step) * step].map((v) =>
+      Math.min(highest, Math.max(lowest, v))
+    );
+    let best: number[] | undefined;
+    let bestScore = Infinity;
+    for (const v of candidates) {
+      lower[j] = v;
+      upper[j] = v;
+      const trial = minimise(columns, target, weights, x, lower, upper);
+      const s = objective(columns, target, weights, trial);
+      if (s < bestScore) {
+        bestScore = s;
+        best = trial;
       }
     }
+    x = best!;
+    lower[j] = x[j];
+    upper[j] = x[j];
+  });
 
-    if (bestIdx < 0) break;
-    entries[bestIdx].grams = Math.max(0, entries[bestIdx].grams + bestDelta);
-  }
+  // When no multiple of the step fits between min and max, the bounds win over the step.
+  const entries = selected.map((e, j) => {
+    const { min, max, step } = bounds[j];
+    const grams = step ? Math.round((x[j] * 100) / step) * step : x[j] * 100;
+    return { ...e, grams: round2(Math.min(max, Math.max(min, grams))) };
+  });
+  const totals = computeTotals(entries, foodsMap);
+  const residual: MacroTarget = {
+    p: round2(target.p - totals.p),
+    c: round2(target.c - totals.c),
+    f: round2(target.f - totals.f)
+  };
+  const exact = MACROS.every((m) => Math.abs(residual[m]) <= tolerance);
 
-  return entries.map((e) => ({ ...e, grams: round2(e.grams) }));
+  return { entries, totals, residual, exact };
 }
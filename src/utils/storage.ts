@@ -44,6 +44,26 @@ export async function idbGet<T>(key: string, fallback: T): Promise<T> {
     return val;
   } catch {
     const raw = localStorage.getItem(key);
-    return raw ? (JSON.parse(raw) as T) : fallback;
+    if (!raw) return fallback;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      // A corrupt value is treated as missing rather than failing the whole load.
+      return fallback;
+    }
+  }
+}
+
+export async function idbDelete(key: string): Promise<void> {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).delete(key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch {
+    localStorage.removeItem(key);
   }
 }
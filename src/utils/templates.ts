@@ -0,0 +1,33 @@
+import type { DayPlan, DayTarget, DayTemplate, DayType, FoodItem, Meal } from '../types';
+import { mealTargets } from './meals';
+import { solveMacros, type SolveResult } from './solver';
+
+function copyMeals(meals: Meal[]): Meal[] {
+  return meals.map((m) => ({ ...m, split: { ...m.split }, entries: m.entries.map((e) => ({ ...e })) }));
+}
+
+export function templateFromPlan(name: string, plan: DayPlan, dayType?: DayType): DayTemplate {
+  return { id: `template_${Date.now()}`, name, dayType, meals: copyMeals(plan.meals) };
+}
+
+export function planFromTemplate(template: DayTemplate): DayPlan {
+  return { meals: copyMeals(template.meals) };
+}
+
+/** Re-solves every non-empty meal of `plan` against its share of `target`. */
+export function rescalePlan(
+  plan: DayPlan,
+  target: DayTarget,
+  foodsMap: Map<string, FoodItem>
+): { plan: DayPlan; reports: Record<string, SolveResult> } {
+  const targets = mealTargets(target, plan.meals);
+  const reports: Record<string, SolveResult> = {};
+  plan.meals.forEach((m) => {
+    if (!m.entries.length) return;
+    reports[m.id] = solveMacros(m.entries, foodsMap, targets[m.id]);
+  });
+  return {
+    plan: { ...plan, meals: plan.meals.map((m) => (reports[m.id] ? { ...m, entries: reports[m.id].entries } : m)) },
+    reports
+  };
+}
@@ -0,0 +1,83 @@
+import type { DayFoodEntry, FoodItem, Language, Portion } from '../types';
+import { formatNumber, localName } from '../i18n';
+import { round2 } from './calc';
+
+export interface UnitOption {
+  /** 'g', 'oz', 'lb' or the portion's `name_en`. */
+  id: string;
+  label: string;
+  grams: number;
+  portion?: Portion;
+}
+
+export const GRAMS_PER_OZ = 28.349523125;
+export const GRAMS_PER_LB = 453.59237;
+
+const MASS_UNITS: UnitOption[] = [
+  { id: 'g', label: 'g', grams: 1 },
+  { id: 'oz', label: 'oz', grams: GRAMS_PER_OZ },
+  { id: 'lb', label: 'lb', grams: GRAMS_PER_LB }
+];
+
+/** Portions of a food that apply to the entry's basis. */
+export function portionsFor(food: FoodItem | undefined, basis: DayFoodEntry['basis']): Portion[] {
+  return (food?.portions ?? []).filter((p) => p.grams > 0 && (!p.basis || p.basis === basis));
+}
+
+/** Units an entry can be entered in: grams, oz, lb, then the food's portions. */
+export function unitOptions(food: FoodItem | undefined, basis: DayFoodEntry['basis'], lang: Language = 'en'): UnitOption[] {
+  const portions = portionsFor(food, basis).map((p) => ({ id: p.name_en, label: localName(lang, p), grams: p.grams, portion: p }));
+  return [...MASS_UNITS, ...portions];
+}
+
+/** The entry's unit, falling back to grams when it no longer applies (e.g. after a basis switch). */
+export function entryUnit(food: FoodItem | undefined, entry: DayFoodEntry, lang: Language = 'en'): UnitOption {
+  const options = unitOptions(food, entry.basis, lang);
+  return options.find((u) => u.id === entry.unit) ?? options[0];
+}
+
+/** Amount of the entry expressed in its unit. */
+export function unitAmount(food: FoodItem | undefined, entry: DayFoodEntry): number {
+  return round2(entry.grams / entryUnit(food, entry).grams);
+}
+
+/**
+ * Grams the solver should round to for a portion-based food: the entry's
+ * portion, or the food's first portion. Other foods (rice in cups) are not rounded.
+ */
+export function portionStep(food: FoodItem | undefined, entry: DayFoodEntry): number {
+  if (!food?.portionBased) return 0;
+  const unit = entryUnit(food, entry);
+  if (unit.portion) return unit.portion.grams;
+  return portionsFor(food, entry.basis)[0]?.grams ?? 0;
+}
+
+/** "2 × egg (100 g)", "3.5 oz (99.22 g)" or "100 g". */
+export function formatAmount(food: FoodItem | undefined, entry: DayFoodEntry, lang: Language = 'en'): string {
+  const unit = entryUnit(food, entry, lang);
+  const grams = `${formatNumber(lang, entry.grams, 2)} g`;
+  if (unit.id === 'g') return grams;
+  const amount = formatNumber(lang, unitAmount(food, entry), 2);
+  const prefix = unit.portion ? `${amount} × ${unit.label}` : `${amount} ${unit.label}`;
+  return `${prefix} (${grams})`;
+}
+
+/**
+ * Parses "slice=32, cup=240" into portions; entries without a positive weight
+ * are dropped. Chinese names and bases of `previous` portions with the same name are kept.
+ */
+export function parsePortions(text: string, previous: Portion[] = []): Portion[] {
+  return text
+    .split(/[,;，；]/)
+    .map((part) => part.split('='))
+    .filter((pair) => pair.length === 2)
+    .map(([name, grams]) => {
+      const before = previous.find((p) => p.name_en === name.trim());
+      return { ...before, name_en: name.trim(), name_zh: before?.name_zh ?? '', grams: Number(grams) };
+    })
+    .filter((p) => p.name_en && Number.isFinite(p.grams) && p.grams > 0);
+}
+
+export function portionsText(portions: Portion[] | undefined): string {
+  return (portions ?? []).map((p) => `${p.name_en}=${p.grams}`).join(', ');
+}
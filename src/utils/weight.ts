@@ -0,0 +1,36 @@
+import type { PlannerProfile, WeightEntry } from '../types';
+import { round2 } from './calc';
+import { cycleStartFor } from './calendar';
+
+export const TREND_ALPHA = 0.1;
+
+export interface TrendPoint {
+  date: string;
+  kg: number;
+  trend: number;
+}
+
+/** Exponential moving average over the log, oldest first; the first weigh-in seeds the trend. */
+export function weightTrend(entries: WeightEntry[], alpha = TREND_ALPHA): TrendPoint[] {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  let trend = sorted[0]?.kg ?? 0;
+  return sorted.map((e, i) => {
+    trend = i === 0 ? e.kg : trend + alpha * (e.kg - trend);
+    return { date: e.date, kg: e.kg, trend: round2(trend) };
+  });
+}
+
+export function trendWeightAt(entries: WeightEntry[], date: string): number | undefined {
+  const points = weightTrend(entries).filter((p) => p.date <= date);
+  return points[points.length - 1]?.trend;
+}
+
+/**
+ * Weight to plan the cycle containing `date` with. In trend mode this is the
+ * snapshot taken when that cycle started, so later weigh-ins never rewrite it.
+ */
+export function planningWeight(profile: PlannerProfile, entries: WeightEntry[], date: string): number {
+  if (!profile.useTrendWeight) return profile.weightKg;
+  const start = cycleStartFor(profile, date);
+  return profile.cycleWeights?.[start] ?? trendWeightAt(entries, start) ?? profile.weightKg;
+}
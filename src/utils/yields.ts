@@ -0,0 +1,55 @@
+import type { Basis, FoodItem, FoodVariant } from '../types';
+import { round2 } from './calc';
+import { NUTRIENT_KEYS } from './nutrients';
+
+/**
+ * Cooked grams per raw gram. Uses the food's own yield when set, otherwise
+ * the raw/cooked energy ratio, which keeps kcal unchanged across a switch.
+ */
+export function yieldRatio(food: FoodItem): number {
+  if (food.yieldRatio && food.yieldRatio > 0) return food.yieldRatio;
+  const raw = food.variants.find((v) => v.basis === 'raw')?.kcal;
+  const cooked = food.variants.find((v) => v.basis === 'cooked')?.kcal;
+  return raw && cooked ? raw / cooked : 1;
+}
+
+/** Grams of `to` basis equivalent to `grams` of `from` basis; fresh counts as raw. */
+export function convertGrams(food: FoodItem, grams: number, from: Basis, to: Basis): number {
+  const isCooked = (b: Basis) => b === 'cooked';
+  if (isCooked(from) === isCooked(to)) return grams;
+  const ratio = yieldRatio(food);
+  return round2(isCooked(to) ? grams * ratio : grams / ratio);
+}
+
+/** Raw purchase weight for a planned amount. */
+export function rawEquivalent(food: FoodItem, grams: number, basis: Basis): number {
+  return convertGrams(food, grams, basis, 'raw');
+}
+
+/** Per-100 g values for `to` basis derived from a `from` variant through the yield. */
+export function deriveVariant(variant: FoodVariant, to: Basis, ratio: number): FoodVariant {
+  const toCooked = to === 'cooked';
+  const fromCooked = variant.basis === 'cooked';
+  const factor = toCooked === fromCooked ? 1 : toCooked ? 1 / ratio : ratio;
+  const out: FoodVariant = { basis: to, p: round2(variant.p * factor), c: round2(variant.c * factor), f: round2(variant.f * factor), derived: true };
+  if (variant.kcal !== undefined) out.kcal = round2(variant.kcal * factor);
+  for (const k of NUTRIENT_KEYS) {
+    const v = variant[k];
+    if (v !== undefined) out[k] = round2(v * factor);
+  }
+  return out;
+}
+
+/**
+ * `food` with a new yield. Variants derived from the old yield are derived
+ * again, and a food with only a raw or only a cooked side gains the other one,
+ * so a basis switch keeps the macros.
+ */
+export function withYield(food: FoodItem, ratio: number | undefined): FoodItem {
+  const source = food.variants.find((v) => !v.derived);
+  if (!ratio || ratio <= 0 || !source) return { ...food, yieldRatio: ratio };
+  const variants = food.variants.map((v) => (v.derived ? deriveVariant(source, v.basis, ratio) : v));
+  const hasCooked = variants.some((v) => v.basis === 'cooked');
+  if (!hasCooked || variants.every((v) => v.basis === 'cooked')) variants.push(deriveVariant(source, hasCooked ? 'raw' : 'cooked', ratio));
+  return { ...food, yieldRatio: ratio, variants };
+}